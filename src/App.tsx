@@ -8,8 +8,12 @@ import { AuthProvider } from "@/hooks/use-auth";
 import { AppLayout } from "@/layouts/AppLayout";
 import Dashboard from "./pages/Dashboard";
 import Challenge from "./pages/Challenge";
+import Learn from "./pages/Learn";
+import Review from "./pages/Review";
 import Leaderboard from "./pages/Leaderboard";
 import Profile from "./pages/Profile";
+import AdminLessons from "./pages/AdminLessons";
+import AdminLessonEditor from "./pages/AdminLessonEditor";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 
@@ -27,8 +31,14 @@ const App = () => (
               <Route path="/auth" element={<Auth />} />
               <Route path="/" element={<AppLayout><Dashboard /></AppLayout>} />
               <Route path="/challenge" element={<AppLayout><Challenge /></AppLayout>} />
+              <Route path="/challenge/:language" element={<AppLayout><Challenge /></AppLayout>} />
+              <Route path="/challenge/:language/:lessonSlug" element={<AppLayout><Challenge /></AppLayout>} />
+              <Route path="/learn" element={<AppLayout><Learn /></AppLayout>} />
+              <Route path="/review" element={<AppLayout><Review /></AppLayout>} />
               <Route path="/leaderboard" element={<AppLayout><Leaderboard /></AppLayout>} />
               <Route path="/profile" element={<AppLayout><Profile /></AppLayout>} />
+              <Route path="/admin/lessons" element={<AppLayout roles={["instructor", "admin"]}><AdminLessons /></AppLayout>} />
+              <Route path="/admin/lessons/:lessonId" element={<AppLayout roles={["instructor", "admin"]}><AdminLessonEditor /></AppLayout>} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
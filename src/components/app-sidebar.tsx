@@ -7,6 +7,8 @@ import {
   BookOpen,
   LogOut,
   Bug,
+  FilePenLine,
+  Repeat,
 } from "lucide-react";
 
 import {
@@ -21,23 +23,29 @@ import {
   SidebarFooter,
   useSidebar,
 } from "@/components/ui/sidebar";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, type AppRole } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 
 const navigationItems = [
   { title: "Dashboard", url: "/", icon: Home },
+  { title: "Learn", url: "/learn", icon: BookOpen },
   { title: "Challenge", url: "/challenge", icon: Code },
+  { title: "Review", url: "/review", icon: Repeat },
   { title: "Leaderboard", url: "/leaderboard", icon: Trophy },
   { title: "Profile", url: "/profile", icon: User },
 ];
 
+const authoringItems: { title: string; url: string; icon: typeof Home; roles: AppRole[] }[] = [
+  { title: "Lessons", url: "/admin/lessons", icon: FilePenLine, roles: ["instructor", "admin"] },
+];
+
 export function AppSidebar() {
   const { state } = useSidebar();
   const location = useLocation();
-  const { signOut } = useAuth();
+  const { signOut, hasRole } = useAuth();
   const currentPath = location.pathname;
 
-  const isActive = (path: string) => currentPath === path;
+  const isActive = (path: string) => currentPath === path || (path !== "/" && currentPath.startsWith(`${path}/`));
   const isParentActive = navigationItems.some((item) => isActive(item.url));
 
   const getNavClasses = (path: string) =>
@@ -46,6 +54,7 @@ export function AppSidebar() {
       : "hover:bg-muted/50";
 
   const isCollapsed = state === "collapsed";
+  const visibleAuthoringItems = authoringItems.filter((item) => hasRole(...item.roles));
 
   return (
     <Sidebar className={isCollapsed ? "w-14" : "w-60"}>
@@ -78,6 +87,29 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+
+        {visibleAuthoringItems.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Authoring</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {visibleAuthoringItems.map((item) => (
+                  <SidebarMenuItem key={item.title}>
+                    <SidebarMenuButton asChild>
+                      <NavLink
+                        to={item.url}
+                        className={getNavClasses(item.url)}
+                      >
+                        <item.icon className="mr-2 h-4 w-4" />
+                        {!isCollapsed && <span>{item.title}</span>}
+                      </NavLink>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
 
       <SidebarFooter>
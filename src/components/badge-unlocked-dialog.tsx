@@ -0,0 +1,35 @@
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import type { EarnedBadge } from '@/lib/grading';
+
+interface BadgeUnlockedDialogProps {
+  badges: EarnedBadge[];
+  onClose: () => void;
+}
+
+export function BadgeUnlockedDialog({ badges, onClose }: BadgeUnlockedDialogProps) {
+  return (
+    <Dialog open={badges.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{badges.length === 1 ? 'New badge unlocked!' : `${badges.length} new badges unlocked!`}</DialogTitle>
+          <DialogDescription>Keep debugging to collect them all.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {badges.map((badge) => (
+            <div key={badge.id} className="flex items-center gap-4 p-4 border rounded-lg">
+              <div className="text-4xl">{badge.icon}</div>
+              <div>
+                <p className="font-semibold">{badge.name}</p>
+                <p className="text-sm text-muted-foreground">{badge.description}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={onClose}>Awesome!</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
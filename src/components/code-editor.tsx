@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react';
-import Editor from '@monaco-editor/react';
+import Editor, { type Monaco } from '@monaco-editor/react';
 import { useTheme } from '@/components/theme-provider';
+import type { Diagnostic, SourceLocation } from '@/lib/execution';
 
 interface CodeEditorProps {
   language: string;
@@ -8,6 +9,15 @@ interface CodeEditorProps {
   onChange: (value: string | undefined) => void;
   height?: string;
   readOnly?: boolean;
+  /** Shown as error and warning markers under the code. */
+  diagnostics?: Diagnostic[];
+  /** Moves the cursor to this location whenever a new one is passed. */
+  focusLocation?: SourceLocation | null;
+  /** Lines with a breakpoint. With onToggleBreakpoint, clicking the gutter beside a line toggles one. */
+  breakpoints?: number[];
+  onToggleBreakpoint?: (line: number) => void;
+  /** The line a debugger is paused on, highlighted. */
+  pausedLine?: number | null;
 }
 
 const languageMap: Record<string, string> = {
@@ -19,21 +29,99 @@ const languageMap: Record<string, string> = {
   rust: 'rust',
 };
 
+const NO_DIAGNOSTICS: Diagnostic[] = [];
+const NO_BREAKPOINTS: number[] = [];
+
+type DecorationsCollection = ReturnType<ReturnType<Monaco['editor']['create']>['createDecorationsCollection']>;
+
 export function CodeEditor({
   language,
   value,
   onChange,
   height = '400px',
   readOnly = false,
+  diagnostics = NO_DIAGNOSTICS,
+  focusLocation,
+  breakpoints = NO_BREAKPOINTS,
+  onToggleBreakpoint,
+  pausedLine = null,
 }: CodeEditorProps) {
   const { theme } = useTheme();
   const editorRef = useRef<any>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const debugDecorations = useRef<DecorationsCollection | null>(null);
+  // The gutter listener is registered once, so it reads the latest callback from here
+  const toggleBreakpoint = useRef(onToggleBreakpoint);
+  toggleBreakpoint.current = onToggleBreakpoint;
 
-  const handleEditorDidMount = (editor: any) => {
+  const applyMarkers = () => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    monaco.editor.setModelMarkers(
+      model,
+      'execution',
+      diagnostics.map((diagnostic) => ({
+        startLineNumber: diagnostic.line,
+        startColumn: diagnostic.column,
+        endLineNumber: diagnostic.line,
+        // Underline from the reported column to the end of the line
+        endColumn: model.getLineMaxColumn(Math.min(diagnostic.line, model.getLineCount())),
+        message: diagnostic.message,
+        severity: diagnostic.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      }))
+    );
+  };
+
+  const applyDebugDecorations = () => {
+    const monaco = monacoRef.current;
+    if (!debugDecorations.current || !monaco) return;
+
+    debugDecorations.current.set([
+      ...breakpoints.map((line) => ({
+        range: new monaco.Range(line, 1, line, 1),
+        options: { glyphMarginClassName: 'debug-breakpoint', glyphMarginHoverMessage: { value: 'Breakpoint' } },
+      })),
+      ...(pausedLine
+        ? [{ range: new monaco.Range(pausedLine, 1, pausedLine, 1), options: { isWholeLine: true, className: 'debug-paused-line' } }]
+        : []),
+    ]);
+  };
+
+  const handleEditorDidMount = (editor: any, monaco: Monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    debugDecorations.current = editor.createDecorationsCollection();
+    editor.onMouseDown((event) => {
+      if (event.target.type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN && event.target.position) {
+        toggleBreakpoint.current?.(event.target.position.lineNumber);
+      }
+    });
+    applyMarkers();
+    applyDebugDecorations();
     editor.focus();
   };
 
+  useEffect(() => {
+    applyMarkers();
+  }, [diagnostics]);
+
+  useEffect(() => {
+    applyDebugDecorations();
+    if (pausedLine) editorRef.current?.revealLineInCenterIfOutsideViewport(pausedLine);
+  }, [breakpoints, pausedLine]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !focusLocation) return;
+
+    const position = { lineNumber: focusLocation.line, column: focusLocation.column };
+    editor.setPosition(position);
+    editor.revealPositionInCenter(position);
+    editor.focus();
+  }, [focusLocation]);
+
   const editorTheme = theme === 'dark' ? 'vs-dark' : 'light';
   const monacoLanguage = languageMap[language] || 'plaintext';
 
@@ -51,6 +139,7 @@ export function CodeEditor({
           fontSize: 14,
           fontFamily: 'JetBrains Mono, Monaco, Menlo, Ubuntu Mono, monospace',
           lineNumbers: 'on',
+          glyphMargin: Boolean(onToggleBreakpoint),
           scrollBeyondLastLine: false,
           automaticLayout: true,
           tabSize: 2,
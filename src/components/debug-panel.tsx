@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { statusMessages, type DebugFrame, type DebugTrace, type StepCommand } from '@/lib/execution';
+import { cn } from '@/lib/utils';
+import { ArrowDownToDot, ArrowUpFromDot, FastForward, Redo, RotateCcw, Square } from 'lucide-react';
+
+interface DebugPanelProps {
+  trace: DebugTrace;
+  /** The step the program is paused before, or trace.steps.length once it has finished. */
+  position: number;
+  onCommand: (command: StepCommand) => void;
+  onRestart: () => void;
+  onStop: () => void;
+  /** Called when the learner picks a frame in the call stack, e.g. to show where it is. */
+  onSelectFrame?: (frame: DebugFrame) => void;
+}
+
+const commands: { command: StepCommand; label: string; icon: typeof Redo }[] = [
+  { command: 'continue', label: 'Continue', icon: FastForward },
+  { command: 'over', label: 'Step Over', icon: Redo },
+  { command: 'into', label: 'Step Into', icon: ArrowDownToDot },
+  { command: 'out', label: 'Step Out', icon: ArrowUpFromDot },
+];
+
+export function DebugPanel({ trace, position, onCommand, onRestart, onStop, onSelectFrame }: DebugPanelProps) {
+  const step = trace.steps[position] ?? null;
+  // Innermost frame first, as debuggers list them
+  const frames = step ? [...step.stack].reverse() : [];
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [position]);
+
+  const frame = frames[selected] ?? null;
+
+  const status = step
+    ? `Paused on line ${step.line} · step ${position + 1} of ${trace.steps.length}`
+    : trace.truncated
+      ? `Recording stopped after ${trace.steps.length} steps`
+      : `Program finished: ${statusMessages[trace.status]}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {commands.map(({ command, label, icon: Icon }) => (
+          <Button key={command} variant="outline" size="sm" onClick={() => onCommand(command)} disabled={!step}>
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+          </Button>
+        ))}
+        <Button variant="outline" size="sm" onClick={onRestart}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Restart
+        </Button>
+        <Button variant="destructive" size="sm" onClick={onStop}>
+          <Square className="h-4 w-4 mr-2" />
+          Stop
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">{status}</p>
+
+      {step && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <h4 className="font-medium mb-2 text-sm">Call Stack</h4>
+            <ScrollArea className="h-40 border border-border rounded-md">
+              {frames.map((stackFrame, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  className={cn(
+                    'w-full flex justify-between px-3 py-1.5 text-left code-font text-xs hover:bg-muted',
+                    index === selected && 'bg-muted'
+                  )}
+                  onClick={() => {
+                    setSelected(index);
+                    onSelectFrame?.(stackFrame);
+                  }}
+                >
+                  <span>{stackFrame.name}</span>
+                  <span className="text-muted-foreground">line {stackFrame.line}</span>
+                </button>
+              ))}
+            </ScrollArea>
+          </div>
+          <div>
+            <h4 className="font-medium mb-2 text-sm">Variables{frame && ` in ${frame.name}`}</h4>
+            <ScrollArea className="h-40 border border-border rounded-md">
+              {frame && frame.variables.length > 0 ? (
+                <table className="w-full code-font text-xs">
+                  <tbody>
+                    {frame.variables.map((variable) => (
+                      <tr key={variable.name} className="border-b border-border last:border-0">
+                        <td className="px-3 py-1.5 text-primary align-top">{variable.name}</td>
+                        <td className="px-3 py-1.5 break-all">{variable.value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="px-3 py-1.5 text-xs text-muted-foreground">No variables yet</p>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import type { DiffLine } from '@/lib/diff';
+
+interface DiffViewProps {
+  lines: DiffLine[];
+}
+
+const diffStyles: Record<DiffLine['type'], { prefix: string; className: string }> = {
+  same: { prefix: ' ', className: 'text-muted-foreground' },
+  removed: { prefix: '-', className: 'text-red-500 bg-red-500/10' },
+  added: { prefix: '+', className: 'text-green-500 bg-green-500/10' },
+};
+
+export function DiffView({ lines }: DiffViewProps) {
+  return (
+    <div className="code-font">
+      {lines.map((line, index) => (
+        <pre key={index} className={`whitespace-pre-wrap ${diffStyles[line.type].className}`}>
+          {diffStyles[line.type].prefix} {line.text}
+        </pre>
+      ))}
+    </div>
+  );
+}
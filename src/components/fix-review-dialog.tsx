@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useTheme } from '@/components/theme-provider';
+import type { ProgrammingLanguage } from '@/lib/execution';
+import type { FixReport } from '@/lib/grading';
+
+interface FixReviewDialogProps {
+  open: boolean;
+  language: ProgrammingLanguage;
+  starterCode: string;
+  code: string;
+  fix: FixReport | null;
+  /** Where to go next, if anywhere. */
+  next: { title: string; reason: string } | null;
+  onNext: () => void;
+  onClose: () => void;
+}
+
+const describeLines = (count: number) => `${count} line${count === 1 ? '' : 's'}`;
+
+export function FixReviewDialog({ open, language, starterCode, code, fix, next, onNext, onClose }: FixReviewDialogProps) {
+  const { theme } = useTheme();
+  const [compareWith, setCompareWith] = useState<'starter' | 'reference'>('starter');
+
+  if (!fix) return null;
+
+  const reference = compareWith === 'reference' && fix.referenceSolution !== null;
+  const minimal = fix.referenceLinesChanged !== null && fix.linesChanged <= fix.referenceLinesChanged;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Your fix
+            {minimal && <Badge variant="secondary">Minimal fix</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            You changed {describeLines(fix.linesChanged)} of the starter code
+            {fix.referenceLinesChanged !== null && `; the reference fix changes ${describeLines(fix.referenceLinesChanged)}`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {fix.referenceSolution !== null && (
+          <div className="flex gap-2">
+            <Button
+              variant={compareWith === 'starter' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setCompareWith('starter')}
+            >
+              Against starter code
+            </Button>
+            <Button
+              variant={compareWith === 'reference' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setCompareWith('reference')}
+            >
+              Against reference fix
+            </Button>
+          </div>
+        )}
+
+        <div className="border border-border rounded-md overflow-hidden">
+          <DiffEditor
+            height="360px"
+            language={language}
+            original={reference ? fix.referenceSolution! : starterCode}
+            modified={code}
+            theme={theme === 'dark' ? 'vs-dark' : 'light'}
+            options={{
+              readOnly: true,
+              minimap: { enabled: false },
+              fontSize: 13,
+              fontFamily: 'JetBrains Mono, Monaco, Menlo, Ubuntu Mono, monospace',
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+              renderSideBySide: true,
+            }}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Left: {reference ? 'the reference fix' : 'the starter code'}. Right: your solution.
+        </p>
+
+        <DialogFooter className="items-center">
+          {next && <p className="text-sm text-muted-foreground mr-auto">{next.reason}</p>}
+          <Button variant="outline" onClick={onClose}>
+            {next ? 'Stay here' : 'Close'}
+          </Button>
+          {next && <Button onClick={onNext}>Next: {next.title}</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
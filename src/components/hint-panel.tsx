@@ -0,0 +1,66 @@
+import { Button } from '@/components/ui/button';
+import { Crosshair, Lightbulb, Lock } from 'lucide-react';
+
+interface HintPanelProps {
+  /** How many hints the lesson has. */
+  count: number;
+  /** The text of the hints revealed so far; hints unlock in order. */
+  revealed: string[];
+  onReveal: () => void;
+  /** Points each hint costs. Left out when revealing a hint costs nothing. */
+  costs?: number[];
+  /** Free hints matched against the last failed check. */
+  targetedHints?: string[];
+}
+
+export function HintPanel({ count, revealed, onReveal, costs, targetedHints = [] }: HintPanelProps) {
+  const costLabel = (index: number) => (costs && costs[index] > 0 ? ` (−${costs[index]} points)` : '');
+
+  return (
+    <>
+      {targetedHints.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">About your last check:</h4>
+          <div className="space-y-2">
+            {targetedHints.map((hint) => (
+              <div key={hint} className="border border-border p-3 rounded-md text-sm">
+                <Crosshair className="inline h-4 w-4 text-primary mr-2" />
+                {hint}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {count > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Hints:</h4>
+          <div className="space-y-2">
+            {Array.from({ length: count }, (_, index) => (
+              <div key={index}>
+                {index < revealed.length ? (
+                  <div className="bg-muted p-3 rounded-md text-sm">
+                    <Lightbulb className="inline h-4 w-4 text-yellow-500 mr-2" />
+                    {revealed[index]}
+                  </div>
+                ) : index === revealed.length ? (
+                  <Button variant="outline" size="sm" onClick={onReveal}>
+                    <Lightbulb className="h-4 w-4 mr-2" />
+                    Show Hint {index + 1}
+                    {costLabel(index)}
+                  </Button>
+                ) : (
+                  <Button variant="outline" size="sm" disabled>
+                    <Lock className="h-4 w-4 mr-2" />
+                    Hint {index + 1}
+                    {costLabel(index)}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
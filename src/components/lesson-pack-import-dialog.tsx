@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { AlertCircle, FileUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  LessonPackError,
+  importLessonPack,
+  parseLessonPack,
+  planLessonPackImport,
+  type ImportPlanItem,
+  type ImportResult,
+} from '@/lib/lesson-pack';
+
+interface LessonPackImportDialogProps {
+  onImported: () => void;
+}
+
+const lessonKey = (item: ImportPlanItem) => `${item.lesson.language}/${item.lesson.slug}`;
+
+const actionLabels: Record<ImportPlanItem['action'], string> = {
+  create: 'New',
+  unchanged: 'Unchanged',
+  conflict: 'Conflict',
+};
+
+export function LessonPackImportDialog({ onImported }: LessonPackImportDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [packName, setPackName] = useState('');
+  const [plan, setPlan] = useState<ImportPlanItem[] | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [overwrite, setOverwrite] = useState<Set<string>>(new Set());
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const reset = () => {
+    setPackName('');
+    setPlan(null);
+    setIssues([]);
+    setOverwrite(new Set());
+    setResults(null);
+  };
+
+  const readPack = async (file: File) => {
+    reset();
+    setWorking(true);
+    try {
+      const pack = parseLessonPack(await file.text());
+      setPackName(pack.name);
+      setPlan(await planLessonPackImport(pack));
+    } catch (error) {
+      if (error instanceof LessonPackError) {
+        setIssues(error.issues);
+      } else {
+        console.error('Error reading lesson pack:', error);
+        setIssues(['Could not read the lesson pack.']);
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleOverwrite = (key: string, checked: boolean) => {
+    const next = new Set(overwrite);
+    if (checked) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+    setOverwrite(next);
+  };
+
+  const runImport = async () => {
+    if (!plan) return;
+
+    setWorking(true);
+    const importResults = await importLessonPack(plan, overwrite);
+    setResults(importResults);
+    setWorking(false);
+
+    const failed = importResults.filter((result) => result.error).length;
+    toast({
+      title: failed > 0 ? 'Import finished with errors' : 'Lesson pack imported',
+      description: `${importResults.length - failed} lesson${importResults.length - failed === 1 ? '' : 's'} imported${
+        failed > 0 ? `, ${failed} failed` : ''
+      }.`,
+      variant: failed > 0 ? 'destructive' : 'default',
+    });
+    onImported();
+  };
+
+  const importable = (plan ?? []).filter(
+    (item) =>
+      item.problems.length === 0 &&
+      (item.action === 'create' || (item.action === 'conflict' && overwrite.has(lessonKey(item))))
+  ).length;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileUp className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Lesson Pack</DialogTitle>
+          <DialogDescription>
+            Lessons are matched to existing ones by language and slug. New lessons are imported as drafts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".json,application/json"
+          disabled={working}
+          onChange={(e) => e.target.files?.[0] && readPack(e.target.files[0])}
+        />
+
+        {issues.length > 0 && (
+          <div className="space-y-1">
+            {issues.map((issue) => (
+              <p key={issue} className="text-sm text-destructive flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {issue}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {plan && (
+          <ScrollArea className="max-h-80 pr-4">
+            <p className="text-sm font-medium mb-2">
+              {packName}: {plan.length} lesson{plan.length === 1 ? '' : 's'}
+            </p>
+            <div className="space-y-2">
+              {plan.map((item) => {
+                const key = lessonKey(item);
+                const result = results?.find((r) => `${r.language}/${r.slug}` === key);
+
+                return (
+                  <div key={key} className="border rounded-md p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={item.action === 'conflict' ? 'destructive' : 'secondary'}>
+                          {actionLabels[item.action]}
+                        </Badge>
+                        <span className="font-medium">{item.lesson.title}</span>
+                        <span className="text-muted-foreground code-font">{key}</span>
+                      </div>
+                      {item.action === 'conflict' && item.problems.length === 0 && !results && (
+                        <label className="flex items-center gap-2 text-xs">
+                          <Checkbox
+                            checked={overwrite.has(key)}
+                            onCheckedChange={(checked) => toggleOverwrite(key, checked === true)}
+                          />
+                          Overwrite
+                        </label>
+                      )}
+                    </div>
+                    {item.action === 'conflict' && (
+                      <p className="text-xs text-muted-foreground">Differs in: {item.changedFields.join(', ')}</p>
+                    )}
+                    {item.problems.map((problem) => (
+                      <p key={problem} className="text-xs text-destructive">
+                        {problem}
+                      </p>
+                    ))}
+                    {result && (
+                      <p className={`text-xs ${result.error ? 'text-destructive' : 'text-green-500'}`}>
+                        {result.error ?? 'Imported'}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            {results ? 'Close' : 'Cancel'}
+          </Button>
+          {!results && (
+            <Button onClick={runImport} disabled={!plan || importable === 0 || working}>
+              {working ? 'Working...' : `Import ${importable} lesson${importable === 1 ? '' : 's'}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, GitCompare, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { DiffView } from '@/components/diff-view';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { diffLines } from '@/lib/diff';
+
+type Submission = Pick<Tables<'submissions'>, 'id' | 'kind' | 'code' | 'output' | 'verdict' | 'duration_ms' | 'created_at'>;
+
+interface SubmissionHistoryProps {
+  userId: string;
+  lessonId: string;
+  currentCode: string;
+  onRestore: (code: string) => void;
+}
+
+const kindLabels: Record<string, string> = { run: 'Run', check: 'Check', review: 'Review' };
+
+const verdictVariant = (verdict: string) =>
+  verdict === 'passed' || verdict === 'success' ? 'outline' : 'destructive';
+
+export function SubmissionHistory({ userId, lessonId, currentCode, onRestore }: SubmissionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      fetchSubmissions();
+    }
+  }, [open, lessonId]);
+
+  const fetchSubmissions = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('submissions')
+        .select('id, kind, code, output, verdict, duration_ms, created_at')
+        .eq('user_id', userId)
+        .eq('lesson_id', lessonId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setSubmissions(data || []);
+    } catch (error) {
+      console.error('Error fetching submissions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restore = (submission: Submission) => {
+    onRestore(submission.code);
+    setOpen(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="h-4 w-4 mr-2" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>Submission History</SheetTitle>
+          <SheetDescription>Every Run and Check you made on this challenge</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-4">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading submissions...</p>
+          ) : submissions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No submissions yet. Run your code to get started.</p>
+          ) : (
+            <div className="space-y-3">
+              {submissions.map((submission) => (
+                <div key={submission.id} className="border rounded-md p-3 space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">{kindLabels[submission.kind] ?? submission.kind}</Badge>
+                      <Badge variant={verdictVariant(submission.verdict)}>{submission.verdict}</Badge>
+                      {submission.duration_ms !== null && (
+                        <span className="text-xs text-muted-foreground">{submission.duration_ms} ms</span>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(submission.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+
+                  {submission.output && (
+                    <pre className="bg-muted p-2 rounded-md text-xs code-font whitespace-pre-wrap max-h-24 overflow-hidden">
+                      {submission.output}
+                    </pre>
+                  )}
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => restore(submission)}>
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setComparingId(comparingId === submission.id ? null : submission.id)}
+                    >
+                      <GitCompare className="h-4 w-4 mr-2" />
+                      {comparingId === submission.id ? 'Hide diff' : 'Diff with current'}
+                    </Button>
+                  </div>
+
+                  {comparingId === submission.id && (
+                    <div className="bg-muted/20 border rounded-md p-2 text-xs">
+                      <p className="text-muted-foreground mb-1">This submission (-) vs. current code (+)</p>
+                      <DiffView lines={diffLines(submission.code, currentCode)} />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
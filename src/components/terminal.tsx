@@ -1,24 +1,106 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { DiffView } from '@/components/diff-view';
+import type { DiffLine } from '@/lib/diff';
+import { findLocation, type ProgrammingLanguage, type SourceLocation } from '@/lib/execution';
+import { stripAnsi, styleChunks, type AnsiLine, type TerminalChunk, type TerminalStream } from '@/lib/terminal';
+import { cn } from '@/lib/utils';
+import { Keyboard } from 'lucide-react';
+
+export interface TerminalDiff {
+  title: string;
+  lines: DiffLine[];
+}
 
 interface TerminalProps {
-  output: string;
+  output: TerminalChunk[];
   isLoading?: boolean;
   height?: string;
+  diff?: TerminalDiff | null;
+  /** With both of these, lines that point into the code become links to it. */
+  language?: ProgrammingLanguage;
+  onLocationClick?: (location: SourceLocation) => void;
+  /** Set while the running program waits for a line; onInput gets the line, or null for end of input. */
+  waitingForInput?: boolean;
+  onInput?: (line: string | null) => void;
+  /** Input given to the program before it starts. Batch-mode runners only ever read this. */
+  stdin?: string;
+  onStdinChange?: (stdin: string) => void;
+  /** Whether the runner can ask for more input while the program runs. */
+  interactive?: boolean;
 }
 
-export function Terminal({ output, isLoading = false, height = '200px' }: TerminalProps) {
+const streamStyles: Record<TerminalStream, string> = {
+  stdout: 'text-foreground',
+  stderr: 'text-red-600 dark:text-red-400',
+  stdin: 'text-primary',
+};
+
+export function Terminal({
+  output,
+  isLoading = false,
+  height = '200px',
+  diff,
+  language,
+  onLocationClick,
+  waitingForInput = false,
+  onInput,
+  stdin,
+  onStdinChange,
+  interactive = false,
+}: TerminalProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [line, setLine] = useState('');
+  const [showStdin, setShowStdin] = useState(false);
+  const styledOutput = useMemo(() => styleChunks(output), [output]);
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [output]);
+  }, [output, diff, waitingForInput]);
+
+  useEffect(() => {
+    if (waitingForInput) inputRef.current?.focus();
+  }, [waitingForInput]);
+
+  const submitLine = (value: string | null) => {
+    setLine('');
+    onInput?.(value);
+  };
+
+  const renderLine = ({ text, spans }: AnsiLine) => {
+    const location = language && onLocationClick ? findLocation(language, stripAnsi(text)) : null;
+    if (location) {
+      return (
+        <span
+          role="button"
+          title={`Go to line ${location.line}`}
+          className="cursor-pointer text-destructive underline decoration-dotted hover:decoration-solid"
+          onClick={() => onLocationClick(location)}
+        >
+          {stripAnsi(text)}
+        </span>
+      );
+    }
+
+    return (
+      <>
+        {spans.map((span, index) => (
+          <span key={index} className={cn(span.color, span.bold && 'font-bold', span.underline && 'underline')}>
+            {span.text}
+          </span>
+        ))}
+      </>
+    );
+  };
 
   return (
-    <div 
-      className="bg-muted/20 border border-border rounded-md p-4 code-font text-sm"
+    <div
+      className="bg-muted/20 border border-border rounded-md p-4 code-font text-sm flex flex-col"
       style={{ height }}
     >
       <div className="flex items-center gap-2 mb-2">
@@ -28,12 +110,74 @@ export function Terminal({ output, isLoading = false, height = '200px' }: Termin
           <div className="w-3 h-3 rounded-full bg-green-500"></div>
         </div>
         <span className="text-muted-foreground">Terminal</span>
+        {onStdinChange && (
+          <Button
+            variant={showStdin ? 'secondary' : 'ghost'}
+            size="sm"
+            className="ml-auto h-6 px-2 text-xs"
+            onClick={() => setShowStdin((shown) => !shown)}
+          >
+            <Keyboard className="h-3 w-3 mr-1" />
+            Input{stdin ? ' ✓' : ''}
+          </Button>
+        )}
       </div>
-      
-      <ScrollArea className="h-[calc(100%-2rem)]">
+
+      {showStdin && onStdinChange && (
+        <div className="mb-2">
+          <Textarea
+            value={stdin ?? ''}
+            onChange={(event) => onStdinChange(event.target.value)}
+            placeholder="One line per line of input"
+            className="code-font text-xs min-h-[60px] h-[60px]"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            {interactive
+              ? 'Read first when the program asks for input; after that, type into the terminal.'
+              : 'This language runs in batch mode, so the program reads this input instead of asking for it.'}
+          </p>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1 min-h-0">
         <div ref={scrollRef} className="space-y-1">
-          {output ? (
-            <pre className="text-foreground whitespace-pre-wrap">{output}</pre>
+          {diff ? (
+            <div>
+              <div className="text-muted-foreground mb-1">{diff.title}</div>
+              <DiffView lines={diff.lines} />
+            </div>
+          ) : output.length > 0 || waitingForInput ? (
+            <pre className="whitespace-pre-wrap">
+              {styledOutput.map((chunk, chunkIndex) => (
+                <span key={chunkIndex} className={streamStyles[chunk.stream]}>
+                  {chunk.lines.map((styledLine, index) => (
+                    <span key={index}>
+                      {index > 0 && '\n'}
+                      {renderLine(styledLine)}
+                    </span>
+                  ))}
+                </span>
+              ))}
+              {waitingForInput && (
+                <input
+                  ref={inputRef}
+                  value={line}
+                  onChange={(event) => setLine(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') {
+                      event.preventDefault();
+                      submitLine(line);
+                    } else if (event.key === 'd' && event.ctrlKey) {
+                      // Ctrl+D ends input, as in a real terminal
+                      event.preventDefault();
+                      submitLine(null);
+                    }
+                  }}
+                  aria-label="Program input"
+                  className="bg-transparent outline-none text-primary min-w-[8ch] w-1/2"
+                />
+              )}
+            </pre>
           ) : (
             <div className="text-muted-foreground">
               {isLoading ? 'Running code...' : 'Output will appear here'}
@@ -43,4 +187,4 @@ export function Terminal({ output, isLoading = false, height = '200px' }: Termin
       </ScrollArea>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,41 @@
+import { CheckCircle2, Lock, XCircle } from 'lucide-react';
+import { statusMessages } from '@/lib/execution';
+import type { GradeReport } from '@/lib/grading';
+
+interface TestResultsProps {
+  report: GradeReport;
+}
+
+export function TestResults({ report }: TestResultsProps) {
+  const passedCount = report.cases.filter((result) => result.passed).length;
+
+  return (
+    <div className="border border-border rounded-md p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">
+          {passedCount} / {report.cases.length} tests passed
+        </span>
+        <span className="text-muted-foreground">
+          Score {report.score} / {report.maxScore}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {report.cases.map((result) => (
+          <div key={result.id} className="flex items-center gap-2">
+            {result.passed ? (
+              <CheckCircle2 className="h-4 w-4 text-green-500" />
+            ) : (
+              <XCircle className="h-4 w-4 text-destructive" />
+            )}
+            <span>{result.name}</span>
+            {result.hidden && <Lock className="h-3 w-3 text-muted-foreground" />}
+            {result.status !== 'success' && (
+              <span className="text-xs text-muted-foreground">{statusMessages[result.status]}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
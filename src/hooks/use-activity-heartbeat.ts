@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// The database only counts gaps of up to 30 seconds between heartbeats
+const HEARTBEAT_MS = 15 * 1000;
+// Without input for this long the learner is considered away and the clock stops.
+const IDLE_AFTER_MS = 60 * 1000;
+const ACTIVITY_EVENTS = ['keydown', 'mousedown', 'mousemove', 'wheel', 'touchstart'] as const;
+
+/**
+ * Tells the database the learner is working on a lesson, so its solve time
+ * pauses while the tab is hidden or the learner is idle. grade-submission scores
+ * the active time the heartbeats add up to.
+ */
+export function useActivityHeartbeat(userId: string | undefined, lessonId: string | undefined) {
+  const lastActivityAt = useRef(Date.now());
+
+  useEffect(() => {
+    if (!userId || !lessonId) return;
+
+    const markActive = () => {
+      lastActivityAt.current = Date.now();
+    };
+
+    const interval = setInterval(async () => {
+      const idle = Date.now() - lastActivityAt.current > IDLE_AFTER_MS;
+      if (document.visibilityState !== 'visible' || idle) return;
+
+      const { error } = await supabase.rpc('record_lesson_activity', { _lesson_id: lessonId });
+      if (error) {
+        console.error('Error recording activity:', error);
+      }
+    }, HEARTBEAT_MS);
+
+    markActive();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', markActive);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', markActive);
+    };
+  }, [userId, lessonId]);
+}
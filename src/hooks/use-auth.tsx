@@ -1,11 +1,16 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Enums } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
 
+export type AppRole = Enums<'app_role'>;
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  roles: AppRole[];
+  hasRole: (...roles: AppRole[]) => boolean;
   loading: boolean;
   signUp: (email: string, password: string, username?: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
@@ -15,6 +20,8 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType>({
   user: null,
   session: null,
+  roles: [],
+  hasRole: () => false,
   loading: true,
   signUp: async () => ({ error: null }),
   signIn: async () => ({ error: null }),
@@ -32,7 +39,10 @@ export const useAuth = () => {
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [roles, setRoles] = useState<AppRole[]>([]);
   const [loading, setLoading] = useState(true);
+  // Whose roles are loaded, so a freshly signed-in user never briefly has none
+  const [rolesUserId, setRolesUserId] = useState<string | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -55,6 +65,53 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  // Role checks in the UI are for navigation only; RLS enforces them
+  useEffect(() => {
+    if (!userId) {
+      setRoles([]);
+      setRolesUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error fetching roles:', error);
+        }
+        setRoles((data ?? []).map(({ role }) => role));
+        setRolesUserId(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Streaks are counted in calendar days of the learner's own timezone
+  useEffect(() => {
+    if (!userId) return;
+
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    supabase
+      .from('profiles')
+      .update({ timezone })
+      .eq('user_id', userId)
+      .neq('timezone', timezone)
+      .then(({ error }) => {
+        if (error) {
+          console.error('Error syncing timezone:', error);
+        }
+      });
+  }, [userId]);
+
   const signUp = async (email: string, password: string, username?: string) => {
     try {
       const redirectUrl = `${window.location.origin}/`;
@@ -141,10 +198,14 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const hasRole = (...wanted: AppRole[]) => wanted.some((role) => roles.includes(role));
+
   const value = {
     user,
     session,
-    loading,
+    roles,
+    hasRole,
+    loading: loading || (!!userId && rolesUserId !== userId),
     signUp,
     signIn,
     signOut,
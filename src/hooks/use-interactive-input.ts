@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Connects a runner's onInput to the terminal: `requestInput` waits until the
+ * learner submits a line through `provideInput`. Anything still waiting when the
+ * page goes away gets end of input, so the program can finish.
+ */
+export function useInteractiveInput() {
+  const [waitingForInput, setWaitingForInput] = useState(false);
+  const pending = useRef<((line: string | null) => void) | null>(null);
+
+  const requestInput = useCallback(
+    () =>
+      new Promise<string | null>((resolve) => {
+        pending.current = resolve;
+        setWaitingForInput(true);
+      }),
+    []
+  );
+
+  const provideInput = useCallback((line: string | null) => {
+    const resolve = pending.current;
+    pending.current = null;
+    setWaitingForInput(false);
+    resolve?.(line);
+  }, []);
+
+  useEffect(() => () => pending.current?.(null), []);
+
+  return { waitingForInput, requestInput, provideInput };
+}
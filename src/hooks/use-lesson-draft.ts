@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+const LOCAL_SAVE_DELAY_MS = 500;
+const REMOTE_SAVE_DELAY_MS = 3000;
+
+interface Draft {
+  code: string;
+  updatedAt: string;
+}
+
+interface UseLessonDraftOptions {
+  userId?: string;
+  lessonId?: string;
+  code: string;
+  starterCode?: string;
+  onRestore: (code: string) => void;
+}
+
+const storageKey = (userId: string, lessonId: string) => `debugmaster-draft:${userId}:${lessonId}`;
+
+const readLocalDraft = (userId: string, lessonId: string): Draft | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId, lessonId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const readRemoteDraft = async (userId: string, lessonId: string): Promise<Draft | null> => {
+  const { data, error } = await supabase
+    .from('lesson_drafts')
+    .select('code, updated_at')
+    .eq('user_id', userId)
+    .eq('lesson_id', lessonId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching draft:', error);
+  }
+  return data ? { code: data.code, updatedAt: data.updated_at } : null;
+};
+
+/**
+ * Autosaves the editor buffer per (user, lesson): to localStorage right away and
+ * to the lesson_drafts table a little later. On lesson change the newer of the
+ * two copies is restored.
+ */
+export function useLessonDraft({ userId, lessonId, code, starterCode, onRestore }: UseLessonDraftOptions) {
+  // Saving only starts once the draft for the current lesson has been restored,
+  // so the starter code never overwrites a saved draft.
+  const restoredLessonId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!userId || !lessonId) return;
+
+    let cancelled = false;
+    restoredLessonId.current = null;
+
+    readRemoteDraft(userId, lessonId).then((remoteDraft) => {
+      if (cancelled) return;
+
+      const localDraft = readLocalDraft(userId, lessonId);
+      const newest = [localDraft, remoteDraft]
+        .filter((draft): draft is Draft => draft !== null)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+
+      if (newest) {
+        onRestore(newest.code);
+      }
+      restoredLessonId.current = lessonId;
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, lessonId]);
+
+  useEffect(() => {
+    if (!userId || !lessonId || restoredLessonId.current !== lessonId || code === starterCode) return;
+
+    const updatedAt = new Date().toISOString();
+
+    const localTimer = setTimeout(() => {
+      localStorage.setItem(storageKey(userId, lessonId), JSON.stringify({ code, updatedAt }));
+    }, LOCAL_SAVE_DELAY_MS);
+
+    const remoteTimer = setTimeout(async () => {
+      const { error } = await supabase
+        .from('lesson_drafts')
+        .upsert({ user_id: userId, lesson_id: lessonId, code, updated_at: updatedAt }, { onConflict: 'user_id,lesson_id' });
+
+      if (error) {
+        console.error('Error saving draft:', error);
+      }
+    }, REMOTE_SAVE_DELAY_MS);
+
+    return () => {
+      clearTimeout(localTimer);
+      clearTimeout(remoteTimer);
+    };
+  }, [userId, lessonId, code, starterCode]);
+
+  const clearDraft = useCallback(async () => {
+    if (!userId || !lessonId) return;
+
+    localStorage.removeItem(storageKey(userId, lessonId));
+    const { error } = await supabase
+      .from('lesson_drafts')
+      .delete()
+      .eq('user_id', userId)
+      .eq('lesson_id', lessonId);
+
+    if (error) {
+      console.error('Error clearing draft:', error);
+    }
+  }, [userId, lessonId]);
+
+  return { clearDraft };
+}
@@ -0,0 +1,327 @@
+import { useEffect, useRef, useState } from 'react';
+import type { TerminalDiff } from '@/components/terminal';
+import { useInteractiveInput } from '@/hooks/use-interactive-input';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { Comparator, ComparatorOptions } from '@/lib/comparators';
+import { diffLines } from '@/lib/diff';
+import {
+  getRunner,
+  statusMessages,
+  type ExecutionResult,
+  type ProgrammingLanguage,
+  type SourceLocation,
+} from '@/lib/execution';
+import { gradeSubmission, type GradeReport, type TestCase } from '@/lib/grading';
+import { fetchRevealedHints, fetchTargetedHints, revealHint } from '@/lib/hints';
+import { renameIdentifiers, renameInText, reverseRenames } from '@/lib/scramble';
+import { appendChunk, terminalText, type TerminalChunk, type TerminalStream } from '@/lib/terminal';
+
+/** The parts of a lesson needed to run and check code against it. */
+export interface WorkspaceLesson {
+  id: string;
+  language: ProgrammingLanguage;
+  comparator: Comparator;
+  comparator_options: Json;
+}
+
+interface UseLessonWorkspaceOptions {
+  userId?: string;
+  /**
+   * Reviews record their checks as 'review' submissions, don't record runs,
+   * and reveal hints afresh for each review.
+   */
+  review?: boolean;
+  /**
+   * Names renamed in the code shown, as by scrambleStarterCode. Hints are about
+   * the original code, so the names they mention are renamed to match.
+   */
+  renames?: Map<string, string>;
+}
+
+const NO_RENAMES = new Map<string, string>();
+
+export interface CheckOutcome<Verdict extends GradeReport> {
+  /** The server's verdict when it graded the check, otherwise the local report. */
+  report: GradeReport;
+  verdict: Verdict | null;
+  attempt: number;
+  targetedHints: string[];
+}
+
+/**
+ * The editor, terminal, test cases and hints of the lesson being solved, shared
+ * by challenges and reviews. Results are cleared whenever the lesson changes;
+ * the page sets the code, since each shows the lesson's starter code differently.
+ */
+export function useLessonWorkspace(
+  lesson: WorkspaceLesson | null,
+  { userId, review = false, renames = NO_RENAMES }: UseLessonWorkspaceOptions
+) {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [output, setOutput] = useState<TerminalChunk[]>([]);
+  const [stdin, setStdin] = useState('');
+  const [executionResult, setExecutionResult] = useState<ExecutionResult | null>(null);
+  const [testCases, setTestCases] = useState<TestCase[]>([]);
+  const [gradeReport, setGradeReport] = useState<GradeReport | null>(null);
+  const [outputDiff, setOutputDiff] = useState<TerminalDiff | null>(null);
+  const [focusLocation, setFocusLocation] = useState<SourceLocation | null>(null);
+  const [revealedHints, setRevealedHints] = useState<string[]>([]);
+  const [targetedHints, setTargetedHints] = useState<string[]>([]);
+  const [attempts, setAttempts] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  // Aborted when the lesson changes, so runs, checks and fetches started on the
+  // previous lesson drop their results instead of showing them on this one
+  const lessonSignal = useRef(new AbortController().signal);
+
+  const { waitingForInput, requestInput, provideInput } = useInteractiveInput();
+  const renameHint = (hint: string) => renameInText(hint, renames);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    lessonSignal.current = controller.signal;
+    setIsRunning(false);
+
+    if (lesson) {
+      setOutput([]);
+      setStdin('');
+      setExecutionResult(null);
+      setGradeReport(null);
+      setOutputDiff(null);
+      setRevealedHints([]);
+      setTargetedHints([]);
+      setAttempts(0);
+      fetchTestCases(lesson.id, controller.signal);
+      loadRevealedHints(lesson.id, controller.signal);
+      getRunner(lesson.language).preload?.();
+    }
+
+    // A program still waiting for input gets end of input, so it finishes
+    return () => {
+      controller.abort();
+      provideInput(null);
+    };
+  }, [lesson?.id]);
+
+  const fetchTestCases = async (lessonId: string, signal: AbortSignal) => {
+    // Hidden cases are filtered out by RLS and only run on the server.
+    const { data, error } = await supabase
+      .from('lesson_test_cases')
+      .select('id, name, stdin, expected_output, is_hidden, weight')
+      .eq('lesson_id', lessonId)
+      .order('order_index')
+      .abortSignal(signal);
+
+    if (signal.aborted) return;
+    if (error) {
+      console.error('Error fetching test cases:', error);
+    }
+    setTestCases(data || []);
+  };
+
+  // Hints revealed before a refresh stay revealed
+  const loadRevealedHints = async (lessonId: string, signal: AbortSignal) => {
+    if (!userId) return;
+
+    try {
+      const hints = await fetchRevealedHints(lessonId, { review });
+      if (!signal.aborted) setRevealedHints(hints);
+    } catch (error) {
+      console.error('Error fetching revealed hints:', error);
+    }
+  };
+
+  const recordSubmission = async (
+    kind: 'run' | 'check' | 'review',
+    submittedOutput: string,
+    verdict: string,
+    durationMs: number
+  ) => {
+    if (!userId || !lesson) return;
+
+    const { error } = await supabase.from('submissions').insert({
+      user_id: userId,
+      lesson_id: lesson.id,
+      language: lesson.language,
+      kind,
+      code,
+      output: submittedOutput,
+      verdict,
+      duration_ms: durationMs,
+    });
+
+    if (error) {
+      console.error('Error recording submission:', error);
+    }
+  };
+
+  const clearResults = () => {
+    setOutput([]);
+    setExecutionResult(null);
+    setGradeReport(null);
+    setOutputDiff(null);
+  };
+
+  // Echo what the learner typed, as a terminal would
+  const submitInput = (line: string | null) => {
+    if (line !== null) setOutput((prev) => appendChunk(prev, 'stdin', `${line}\n`));
+    provideInput(line);
+  };
+
+  const runCode = async () => {
+    if (!lesson) return;
+
+    const signal = lessonSignal.current;
+    setIsRunning(true);
+    clearResults();
+
+    const append = (stream: TerminalStream) => (chunk: string) => {
+      if (!signal.aborted) setOutput((prev) => appendChunk(prev, stream, chunk));
+    };
+    const result = await getRunner(lesson.language).run(code, {
+      stdin,
+      onStdout: append('stdout'),
+      onStderr: append('stderr'),
+      onInput: requestInput,
+    });
+
+    // The run still belongs in the previous lesson's history
+    if (!review) {
+      recordSubmission('run', result.stdout + result.stderr, result.status, result.durationMs);
+    }
+    if (signal.aborted) return;
+
+    if (result.status !== 'success') {
+      append('stderr')(`\n${statusMessages[result.status]}`);
+    }
+    setExecutionResult(result);
+    setIsRunning(false);
+  };
+
+  /**
+   * Runs the visible test cases locally for quick feedback, and hands the code
+   * to `verify` on the server whenever none of them failed, since only the
+   * server sees the hidden ones. Returns null when verifying failed, or when
+   * the lesson changed before the check finished.
+   */
+  const checkSolution = async <Verdict extends GradeReport>(
+    verify: () => Promise<Verdict | null>
+  ): Promise<CheckOutcome<Verdict> | null> => {
+    if (!lesson) return null;
+
+    const signal = lessonSignal.current;
+    setIsRunning(true);
+    setGradeReport(null);
+    setOutputDiff(null);
+    setTargetedHints([]);
+
+    const attempt = attempts + 1;
+    const startedAt = performance.now();
+    setAttempts(attempt);
+
+    const report = await gradeSubmission(
+      getRunner(lesson.language),
+      code,
+      testCases,
+      lesson.comparator,
+      lesson.comparator_options as ComparatorOptions
+    );
+    const verified = report.cases.every((result) => result.passed);
+
+    // The server records the checks it grades itself. A check counts on the
+    // lesson it was made on, even if the learner has moved on since.
+    if (!verified) {
+      const summary = report.cases.map((result) => `${result.passed ? 'PASS' : 'FAIL'} ${result.name}`).join('\n');
+      recordSubmission(review ? 'review' : 'check', summary, 'failed', Math.round(performance.now() - startedAt));
+    }
+    if (signal.aborted) return null;
+    setGradeReport(report);
+
+    const verdict = verified ? await verify() : null;
+    if (signal.aborted) return null;
+    if (verified && !verdict) {
+      setIsRunning(false);
+      return null;
+    }
+    if (verdict) {
+      setGradeReport(verdict);
+    }
+    setIsRunning(false);
+
+    const finalReport = verdict ?? report;
+    let matchedHints: string[] = [];
+    if (!finalReport.passed) {
+      const firstVisibleFailure = finalReport.cases.find((result) => !result.passed && result.expected !== undefined);
+      if (firstVisibleFailure) {
+        setOutputDiff({
+          title: `${firstVisibleFailure.name}: expected (-) vs. your output (+)`,
+          lines: diffLines(firstVisibleFailure.expected, firstVisibleFailure.stdout ?? ''),
+        });
+      }
+
+      try {
+        matchedHints = await fetchTargetedHints(lesson.id, {
+          // Patterns are written against the original names
+          code: renameIdentifiers(code, lesson.language, reverseRenames(renames)),
+          outputs: [
+            terminalText(output),
+            ...finalReport.cases
+              .filter((result) => !result.passed && result.stdout !== undefined)
+              .map((result) => result.stdout),
+          ],
+        });
+      } catch (error) {
+        console.error('Error matching targeted hints:', error);
+      }
+      if (signal.aborted) return null;
+      setTargetedHints(matchedHints);
+    }
+
+    return { report: finalReport, verdict, attempt, targetedHints: matchedHints.map(renameHint) };
+  };
+
+  const revealNextHint = async () => {
+    if (!lesson) return;
+
+    try {
+      const hint = await revealHint(lesson.id, revealedHints.length, { review });
+      setRevealedHints((hints) => [...hints, hint]);
+    } catch (error) {
+      console.error('Error revealing hint:', error);
+      toast({
+        title: 'Error',
+        description: userId ? 'Could not reveal the hint. Please try again.' : 'Sign in to reveal hints.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return {
+    code,
+    setCode,
+    output,
+    stdin,
+    setStdin,
+    executionResult,
+    testCases,
+    gradeReport,
+    outputDiff,
+    focusLocation,
+    setFocusLocation,
+    revealedHints: revealedHints.map(renameHint),
+    targetedHints: targetedHints.map(renameHint),
+    setTargetedHints,
+    attempts,
+    setAttempts,
+    isRunning,
+    setIsRunning,
+    waitingForInput,
+    submitInput,
+    clearResults,
+    runCode,
+    checkSolution,
+    revealNextHint,
+  };
+}
@@ -21,6 +21,7 @@ export type Database = {
           description: string
           icon: string | null
           id: string
+          language: Database["public"]["Enums"]["programming_language"] | null
           name: string
           requirement_value: number | null
         }
@@ -30,6 +31,7 @@ export type Database = {
           description: string
           icon?: string | null
           id?: string
+          language?: Database["public"]["Enums"]["programming_language"] | null
           name: string
           requirement_value?: number | null
         }
@@ -39,49 +41,363 @@ export type Database = {
           description?: string
           icon?: string | null
           id?: string
+          language?: Database["public"]["Enums"]["programming_language"] | null
           name?: string
           requirement_value?: number | null
         }
         Relationships: []
       }
+      hint_reveals: {
+        Row: {
+          cost: number
+          hint_index: number
+          lesson_id: string
+          revealed_at: string
+          user_id: string
+        }
+        Insert: {
+          cost: number
+          hint_index: number
+          lesson_id: string
+          revealed_at?: string
+          user_id: string
+        }
+        Update: {
+          cost?: number
+          hint_index?: number
+          lesson_id?: string
+          revealed_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hint_reveals_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_path_lessons: {
+        Row: {
+          lesson_id: string
+          path_id: string
+          position: number
+        }
+        Insert: {
+          lesson_id: string
+          path_id: string
+          position: number
+        }
+        Update: {
+          lesson_id?: string
+          path_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_path_lessons_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "learning_path_lessons_path_id_fkey"
+            columns: ["path_id"]
+            isOneToOne: false
+            referencedRelation: "learning_paths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_paths: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          language: Database["public"]["Enums"]["programming_language"] | null
+          order_index: number
+          slug: string
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          language?: Database["public"]["Enums"]["programming_language"] | null
+          order_index?: number
+          slug: string
+          title: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          language?: Database["public"]["Enums"]["programming_language"] | null
+          order_index?: number
+          slug?: string
+          title?: string
+        }
+        Relationships: []
+      }
+      lesson_drafts: {
+        Row: {
+          code: string
+          id: string
+          lesson_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          code: string
+          id?: string
+          lesson_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          code?: string
+          id?: string
+          lesson_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_drafts_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_prerequisites: {
+        Row: {
+          lesson_id: string
+          prerequisite_id: string
+        }
+        Insert: {
+          lesson_id: string
+          prerequisite_id: string
+        }
+        Update: {
+          lesson_id?: string
+          prerequisite_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_prerequisites_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lesson_prerequisites_prerequisite_id_fkey"
+            columns: ["prerequisite_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_solutions: {
+        Row: {
+          code: string
+          lesson_id: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          lesson_id: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          lesson_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_solutions_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: true
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_starts: {
+        Row: {
+          active_seconds: number
+          last_active_at: string | null
+          lesson_id: string
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          active_seconds?: number
+          last_active_at?: string | null
+          lesson_id: string
+          started_at?: string
+          user_id: string
+        }
+        Update: {
+          active_seconds?: number
+          last_active_at?: string | null
+          lesson_id?: string
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_starts_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_tags: {
+        Row: {
+          lesson_id: string
+          tag_id: string
+        }
+        Insert: {
+          lesson_id: string
+          tag_id: string
+        }
+        Update: {
+          lesson_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_tags_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lesson_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_test_cases: {
+        Row: {
+          created_at: string
+          expected_output: string
+          id: string
+          is_hidden: boolean
+          lesson_id: string
+          name: string | null
+          order_index: number
+          stdin: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          expected_output: string
+          id?: string
+          is_hidden?: boolean
+          lesson_id: string
+          name?: string | null
+          order_index?: number
+          stdin?: string
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          expected_output?: string
+          id?: string
+          is_hidden?: boolean
+          lesson_id?: string
+          name?: string | null
+          order_index?: number
+          stdin?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_test_cases_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lessons: {
         Row: {
+          comparator: Database["public"]["Enums"]["output_comparator"]
+          comparator_options: Json
           created_at: string
           description: string
           difficulty: Database["public"]["Enums"]["difficulty_level"]
           expected_output: string
+          hint_costs: number[]
+          hint_count: number
           hints: string[] | null
           id: string
           language: Database["public"]["Enums"]["programming_language"]
           order_index: number
           points: number | null
+          search: unknown | null
+          slug: string
           starter_code: string
+          status: Database["public"]["Enums"]["lesson_status"]
+          targeted_hints: Json
           title: string
         }
         Insert: {
+          comparator?: Database["public"]["Enums"]["output_comparator"]
+          comparator_options?: Json
           created_at?: string
           description: string
           difficulty: Database["public"]["Enums"]["difficulty_level"]
           expected_output: string
+          hint_costs?: number[]
+          hint_count?: number
           hints?: string[] | null
           id?: string
           language: Database["public"]["Enums"]["programming_language"]
           order_index: number
           points?: number | null
+          search?: unknown | null
+          slug: string
           starter_code: string
+          status?: Database["public"]["Enums"]["lesson_status"]
+          targeted_hints?: Json
           title: string
         }
         Update: {
+          comparator?: Database["public"]["Enums"]["output_comparator"]
+          comparator_options?: Json
           created_at?: string
           description?: string
           difficulty?: Database["public"]["Enums"]["difficulty_level"]
           expected_output?: string
+          hint_costs?: number[]
+          hint_count?: number
           hints?: string[] | null
           id?: string
           language?: Database["public"]["Enums"]["programming_language"]
           order_index?: number
           points?: number | null
+          search?: unknown | null
+          slug?: string
           starter_code?: string
+          status?: Database["public"]["Enums"]["lesson_status"]
+          targeted_hints?: Json
           title?: string
         }
         Relationships: []
@@ -93,6 +409,8 @@ export type Database = {
           created_at: string
           current_streak: number | null
           id: string
+          last_solved_on: string | null
+          timezone: string
           total_lessons_completed: number | null
           total_points: number | null
           updated_at: string
@@ -105,6 +423,8 @@ export type Database = {
           created_at?: string
           current_streak?: number | null
           id?: string
+          last_solved_on?: string | null
+          timezone?: string
           total_lessons_completed?: number | null
           total_points?: number | null
           updated_at?: string
@@ -117,6 +437,8 @@ export type Database = {
           created_at?: string
           current_streak?: number | null
           id?: string
+          last_solved_on?: string | null
+          timezone?: string
           total_lessons_completed?: number | null
           total_points?: number | null
           updated_at?: string
@@ -125,6 +447,200 @@ export type Database = {
         }
         Relationships: []
       }
+      review_attempts: {
+        Row: {
+          attempts: number
+          hints_used: number
+          id: string
+          interval_days: number
+          lesson_id: string
+          passed: boolean
+          quality: number
+          reviewed_at: string
+          time_taken: number | null
+          user_id: string
+        }
+        Insert: {
+          attempts: number
+          hints_used: number
+          id?: string
+          interval_days: number
+          lesson_id: string
+          passed: boolean
+          quality: number
+          reviewed_at?: string
+          time_taken?: number | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          hints_used?: number
+          id?: string
+          interval_days?: number
+          lesson_id?: string
+          passed?: boolean
+          quality?: number
+          reviewed_at?: string
+          time_taken?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_attempts_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_hint_reveals: {
+        Row: {
+          due_at: string
+          hint_index: number
+          lesson_id: string
+          revealed_at: string
+          user_id: string
+        }
+        Insert: {
+          due_at: string
+          hint_index: number
+          lesson_id: string
+          revealed_at?: string
+          user_id: string
+        }
+        Update: {
+          due_at?: string
+          hint_index?: number
+          lesson_id?: string
+          revealed_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_hint_reveals_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_items: {
+        Row: {
+          created_at: string
+          due_at: string
+          ease_factor: number
+          interval_days: number
+          last_reviewed_at: string | null
+          lesson_id: string
+          repetitions: number
+          started_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_at: string
+          ease_factor?: number
+          interval_days?: number
+          last_reviewed_at?: string | null
+          lesson_id: string
+          repetitions?: number
+          started_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          interval_days?: number
+          last_reviewed_at?: string | null
+          lesson_id?: string
+          repetitions?: number
+          started_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_items_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      submissions: {
+        Row: {
+          code: string
+          created_at: string
+          duration_ms: number | null
+          id: string
+          kind: string
+          language: Database["public"]["Enums"]["programming_language"]
+          lesson_id: string
+          output: string
+          user_id: string
+          verdict: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          duration_ms?: number | null
+          id?: string
+          kind: string
+          language: Database["public"]["Enums"]["programming_language"]
+          lesson_id: string
+          output?: string
+          user_id: string
+          verdict: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          duration_ms?: number | null
+          id?: string
+          kind?: string
+          language?: Database["public"]["Enums"]["programming_language"]
+          lesson_id?: string
+          output?: string
+          user_id?: string
+          verdict?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submissions_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          slug?: string
+        }
+        Relationships: []
+      }
       user_badges: {
         Row: {
           badge_id: string
@@ -161,6 +677,7 @@ export type Database = {
           hints_used: number | null
           id: string
           lesson_id: string
+          points_awarded: number | null
           time_taken: number | null
           user_id: string
         }
@@ -170,6 +687,7 @@ export type Database = {
           hints_used?: number | null
           id?: string
           lesson_id: string
+          points_awarded?: number | null
           time_taken?: number | null
           user_id: string
         }
@@ -179,6 +697,7 @@ export type Database = {
           hints_used?: number | null
           id?: string
           lesson_id?: string
+          points_awarded?: number | null
           time_taken?: number | null
           user_id?: string
         }
@@ -192,14 +711,215 @@ export type Database = {
           },
         ]
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      award_badges: {
+        Args: {
+          _user_id: string
+        }
+        Returns: {
+          badge_type: Database["public"]["Enums"]["badge_type"]
+          created_at: string
+          description: string
+          icon: string | null
+          id: string
+          language: Database["public"]["Enums"]["programming_language"] | null
+          name: string
+          requirement_value: number | null
+        }[]
+      }
+      complete_lesson: {
+        Args: {
+          _attempts: number
+          _hints_used: number
+          _lesson_id: string
+          _points: number
+          _time_taken: number
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      concept_mastery: {
+        Args: {
+          _user_id: string
+        }
+        Returns: {
+          completed_lessons: number
+          mastery: number
+          name: string
+          slug: string
+          tag_id: string
+          total_lessons: number
+        }[]
+      }
+      expire_streaks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_instructor: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      lesson_hints: {
+        Args: {
+          _lesson_id: string
+        }
+        Returns: {
+          hints: string[]
+          targeted_hints: Json
+        }[]
+      }
+      match_targeted_hints: {
+        Args: {
+          _code: string
+          _lesson_id: string
+          _outputs: string[]
+        }
+        Returns: string[]
+      }
+      missing_prerequisites: {
+        Args: {
+          _lesson_id: string
+          _user_id: string
+        }
+        Returns: {
+          id: string
+          title: string
+        }[]
+      }
+      recommend_lessons: {
+        Args: {
+          _current_lesson_id?: string
+          _limit?: number
+          _user_id: string
+        }
+        Returns: {
+          difficulty: Database["public"]["Enums"]["difficulty_level"]
+          id: string
+          language: Database["public"]["Enums"]["programming_language"]
+          reason: string
+          slug: string
+          title: string
+        }[]
+      }
+      record_lesson_activity: {
+        Args: {
+          _lesson_id: string
+        }
+        Returns: undefined
+      }
+      record_review: {
+        Args: {
+          _attempts: number
+          _hints_used: number
+          _lesson_id: string
+          _passed: boolean
+          _time_taken: number
+          _user_id: string
+        }
+        Returns: {
+          created_at: string
+          due_at: string
+          ease_factor: number
+          interval_days: number
+          last_reviewed_at: string | null
+          lesson_id: string
+          repetitions: number
+          started_at: string | null
+          user_id: string
+        }
+      }
+      refresh_streak: {
+        Args: {
+          _user_id: string
+        }
+        Returns: number
+      }
+      reveal_hint: {
+        Args: {
+          _hint_index: number
+          _lesson_id: string
+        }
+        Returns: string
+      }
+      reveal_review_hint: {
+        Args: {
+          _hint_index: number
+          _lesson_id: string
+        }
+        Returns: string
+      }
+      revealed_hints: {
+        Args: {
+          _lesson_id: string
+        }
+        Returns: string[]
+      }
+      revealed_review_hints: {
+        Args: {
+          _lesson_id: string
+        }
+        Returns: string[]
+      }
+      review_ease: {
+        Args: {
+          _ease_factor: number
+          _quality: number
+        }
+        Returns: number
+      }
+      review_quality: {
+        Args: {
+          _attempts: number
+          _hints_used: number
+          _passed: boolean
+        }
+        Returns: number
+      }
+      start_review: {
+        Args: {
+          _lesson_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
+      app_role: "learner" | "instructor" | "admin"
       badge_type:
         | "first_debug"
         | "consecutive_solves"
@@ -207,6 +927,14 @@ export type Database = {
         | "speed_demon"
         | "accuracy_ace"
       difficulty_level: "easy" | "medium" | "hard" | "expert"
+      lesson_status: "draft" | "published"
+      output_comparator:
+        | "exact"
+        | "ignore_whitespace"
+        | "numeric_tolerance"
+        | "regex"
+        | "unordered_lines"
+        | "json_equal"
       programming_language:
         | "python"
         | "javascript"
@@ -341,6 +1069,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      app_role: ["learner", "instructor", "admin"],
       badge_type: [
         "first_debug",
         "consecutive_solves",
@@ -349,6 +1078,15 @@ export const Constants = {
         "accuracy_ace",
       ],
       difficulty_level: ["easy", "medium", "hard", "expert"],
+      lesson_status: ["draft", "published"],
+      output_comparator: [
+        "exact",
+        "ignore_whitespace",
+        "numeric_tolerance",
+        "regex",
+        "unordered_lines",
+        "json_equal",
+      ],
       programming_language: [
         "python",
         "javascript",
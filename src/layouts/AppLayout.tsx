@@ -1,4 +1,4 @@
-import { useAuth } from '@/hooks/use-auth';
+import { useAuth, type AppRole } from '@/hooks/use-auth';
 import { Navigate } from 'react-router-dom';
 import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { AppSidebar } from '@/components/app-sidebar';
@@ -8,10 +8,12 @@ import { Sun, Moon } from 'lucide-react';
 
 interface AppLayoutProps {
   children: React.ReactNode;
+  /** Only users with one of these roles may open the page. */
+  roles?: AppRole[];
 }
 
-export function AppLayout({ children }: AppLayoutProps) {
-  const { user, loading } = useAuth();
+export function AppLayout({ children, roles }: AppLayoutProps) {
+  const { user, loading, hasRole } = useAuth();
   const { theme, setTheme } = useTheme();
 
   if (loading) {
@@ -29,6 +31,10 @@ export function AppLayout({ children }: AppLayoutProps) {
     return <Navigate to="/auth" replace />;
   }
 
+  if (roles && !hasRole(...roles)) {
+    return <Navigate to="/" replace />;
+  }
+
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full">
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { outputsMatch } from './comparators';
+
+describe('outputsMatch', () => {
+  describe('exact', () => {
+    it('ignores trailing whitespace and line endings', () => {
+      expect(outputsMatch('1\r\n2  \n\n', '1\n2')).toBe(true);
+    });
+
+    it('compares everything else', () => {
+      expect(outputsMatch('1\n 2', '1\n2')).toBe(false);
+      expect(outputsMatch('Hello', 'hello')).toBe(false);
+    });
+  });
+
+  describe('ignore_whitespace', () => {
+    it('treats any run of whitespace as one space', () => {
+      expect(outputsMatch('a   b\n\tc', ' a b c ', 'ignore_whitespace')).toBe(true);
+    });
+
+    it('still needs whitespace between words', () => {
+      expect(outputsMatch('ab c', 'a b c', 'ignore_whitespace')).toBe(false);
+    });
+  });
+
+  describe('numeric_tolerance', () => {
+    it('accepts numbers within the default tolerance', () => {
+      expect(outputsMatch('0.30000000000000004', '0.3', 'numeric_tolerance')).toBe(true);
+      expect(outputsMatch('0.31', '0.3', 'numeric_tolerance')).toBe(false);
+    });
+
+    it('uses the tolerance given', () => {
+      expect(outputsMatch('3.14', '3.14159', 'numeric_tolerance', { tolerance: 0.01 })).toBe(true);
+      expect(outputsMatch('3.1', '3.14159', 'numeric_tolerance', { tolerance: 0.01 })).toBe(false);
+    });
+
+    it('compares words exactly and needs as many tokens', () => {
+      expect(outputsMatch('total: 2.0000001', 'total: 2', 'numeric_tolerance')).toBe(true);
+      expect(outputsMatch('sum: 2', 'total: 2', 'numeric_tolerance')).toBe(false);
+      expect(outputsMatch('1 2', '1 2 3', 'numeric_tolerance')).toBe(false);
+    });
+  });
+
+  describe('regex', () => {
+    it('matches the whole output', () => {
+      expect(outputsMatch('Took 12ms', 'Took \\d+ms', 'regex')).toBe(true);
+      expect(outputsMatch('Took 12ms, done', 'Took \\d+ms', 'regex')).toBe(false);
+    });
+
+    it('keeps alternatives anchored', () => {
+      expect(outputsMatch('yes!', 'yes|no', 'regex')).toBe(false);
+    });
+
+    it('uses the flags given', () => {
+      expect(outputsMatch('HELLO', 'hello', 'regex', { flags: 'i' })).toBe(true);
+    });
+
+    it('fails an invalid pattern instead of throwing', () => {
+      expect(outputsMatch('(', '(', 'regex')).toBe(false);
+    });
+  });
+
+  describe('unordered_lines', () => {
+    it('accepts lines in any order', () => {
+      expect(outputsMatch('b\na\nc', 'a\nb\nc', 'unordered_lines')).toBe(true);
+    });
+
+    it('counts repeated lines', () => {
+      expect(outputsMatch('a\na\nb', 'a\nb\nb', 'unordered_lines')).toBe(false);
+    });
+  });
+
+  describe('json_equal', () => {
+    it('ignores formatting and key order', () => {
+      expect(outputsMatch('{"b": [1, 2], "a": null}', '{ "a": null, "b": [1,2] }', 'json_equal')).toBe(true);
+    });
+
+    it('keeps array order and types', () => {
+      expect(outputsMatch('[2, 1]', '[1, 2]', 'json_equal')).toBe(false);
+      expect(outputsMatch('{"a": "1"}', '{"a": 1}', 'json_equal')).toBe(false);
+      expect(outputsMatch('{"0": 1}', '[1]', 'json_equal')).toBe(false);
+    });
+
+    it('fails output that is not JSON', () => {
+      expect(outputsMatch('{a: 1}', '{"a": 1}', 'json_equal')).toBe(false);
+    });
+  });
+});
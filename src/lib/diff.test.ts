@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diff';
+
+describe('diffLines', () => {
+  it('marks every line the same when the texts match', () => {
+    expect(diffLines('a\nb\n', 'a\r\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+
+  it('shows a changed line as removed, then added', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+    ]);
+  });
+
+  it('keeps the longest run of common lines', () => {
+    expect(diffLines('1\n2\n3\n4', '2\n3\n4\n5')).toEqual([
+      { type: 'removed', text: '1' },
+      { type: 'same', text: '2' },
+      { type: 'same', text: '3' },
+      { type: 'same', text: '4' },
+      { type: 'added', text: '5' },
+    ]);
+  });
+
+  it('shows missing and extra output at the end', () => {
+    expect(diffLines('a\nb', 'a')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+    ]);
+    expect(diffLines('a', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'added', text: 'b' },
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+export interface DiffLine {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * Line-by-line diff of two texts via longest common subsequence. Outputs in
+ * lessons are a handful of lines, so the quadratic table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  const b = after.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  return result;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { nextStep, type DebugStep } from './debug';
+
+// A step on `line`, `depth` calls deep
+const step = (line: number, depth: number): DebugStep => ({
+  line,
+  stack: Array.from({ length: depth }, (_, index) => ({ name: `frame ${index}`, line, variables: [] })),
+  outputCount: 0,
+});
+
+// main calls f on line 2, f runs lines 5 and 6, main goes on at line 3
+const steps = [step(1, 1), step(2, 1), step(5, 2), step(6, 2), step(3, 1)];
+
+describe('nextStep', () => {
+  it('steps into calls', () => {
+    expect(nextStep(steps, 1, 'into')).toBe(2);
+  });
+
+  it('steps over calls', () => {
+    expect(nextStep(steps, 1, 'over')).toBe(4);
+    expect(nextStep(steps, 2, 'over')).toBe(3);
+  });
+
+  it('steps out to the caller', () => {
+    expect(nextStep(steps, 2, 'out')).toBe(4);
+  });
+
+  it('continues to the next breakpoint', () => {
+    expect(nextStep(steps, 0, 'continue', [6, 3])).toBe(3);
+  });
+
+  it('starts from the top', () => {
+    expect(nextStep(steps, -1, 'into')).toBe(0);
+    expect(nextStep(steps, -1, 'over')).toBe(0);
+    expect(nextStep(steps, -1, 'continue', [5])).toBe(2);
+  });
+
+  it('runs to the end when nothing matches', () => {
+    expect(nextStep(steps, 4, 'into')).toBe(steps.length);
+    expect(nextStep(steps, 0, 'out')).toBe(steps.length);
+    expect(nextStep(steps, 0, 'continue', [])).toBe(steps.length);
+  });
+});
@@ -0,0 +1,100 @@
+import type { ExecutionOptions, ExecutionResult, ExecutionStatus } from './types';
+
+// Debugging records every line the program runs, then lets the learner move
+// through the recording. Nothing pauses the real program, so stepping works the
+// same in every browser and the program cannot hang while it is inspected.
+
+/** Recording stops after this many steps, so a long loop can still be debugged. */
+export const MAX_DEBUG_STEPS = 2000;
+/** Recording slows a program down, so it gets longer than a normal run. */
+export const DEBUG_TIMEOUT_MS = 15000;
+
+export interface DebugVariable {
+  name: string;
+  value: string;
+}
+
+export interface DebugFrame {
+  name: string;
+  line: number;
+  variables: DebugVariable[];
+}
+
+export interface DebugStep {
+  line: number;
+  /** The call stack when the line was about to run, outermost frame first. */
+  stack: DebugFrame[];
+  /** How many chunks of output the program had written by then. */
+  outputCount: number;
+}
+
+export interface DebugOutput {
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+export interface DebugTrace {
+  steps: DebugStep[];
+  output: DebugOutput[];
+  status: ExecutionStatus;
+  /** Whether recording stopped at MAX_DEBUG_STEPS before the program ended. */
+  truncated: boolean;
+}
+
+/** What a runner's worker sends back from a recorded run. */
+export interface RecordedRun {
+  result: ExecutionResult;
+  steps: DebugStep[];
+  truncated: boolean;
+}
+
+export type StepCommand = 'continue' | 'over' | 'into' | 'out';
+
+/**
+ * Runs a recording runner, collecting its output in the order it was written
+ * so each step can show the output up to that point.
+ */
+export async function recordTrace(
+  record: (code: string, options: ExecutionOptions) => Promise<RecordedRun>,
+  code: string,
+  { timeoutMs = DEBUG_TIMEOUT_MS, memoryLimitMb, stdin }: ExecutionOptions = {}
+): Promise<DebugTrace> {
+  const output: DebugOutput[] = [];
+  const { result, steps, truncated } = await record(code, {
+    timeoutMs,
+    memoryLimitMb,
+    stdin,
+    onStdout: (text) => output.push({ stream: 'stdout', text }),
+    onStderr: (text) => output.push({ stream: 'stderr', text }),
+  });
+  return { steps, output, status: result.status, truncated };
+}
+
+const depth = (step: DebugStep) => step.stack.length;
+
+/**
+ * Where a debugger command moves to from step `current`: the next line for
+ * "into", the next line in the same or an outer frame for "over", the next line
+ * in an outer frame for "out", and the next breakpoint for "continue". Returns
+ * `steps.length` when the program ends first. Pass -1 to start from the top.
+ */
+export function nextStep(steps: DebugStep[], current: number, command: StepCommand, breakpoints: number[] = []): number {
+  const from = steps[current];
+  const matches = (step: DebugStep) => {
+    switch (command) {
+      case 'into':
+        return true;
+      case 'over':
+        return !from || depth(step) <= depth(from);
+      case 'out':
+        return !from || depth(step) < depth(from);
+      case 'continue':
+        return breakpoints.includes(step.line);
+    }
+  };
+
+  for (let index = current + 1; index < steps.length; index++) {
+    if (matches(steps[index])) return index;
+  }
+  return steps.length;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { findLocation, parseDiagnostics } from './diagnostics';
+
+describe('findLocation', () => {
+  it("finds a frame in the learner's file", () => {
+    expect(findLocation('javascript', '    at add (main.js:3:11)')).toEqual({ line: 3, column: 11 });
+    expect(findLocation('python', '  File "<exec>", line 7, in <module>')).toEqual({ line: 7, column: 1 });
+  });
+
+  it('ignores frames in other files', () => {
+    expect(findLocation('python', '  File "/lib/python3.11/json/__init__.py", line 346, in loads')).toBeNull();
+    expect(findLocation('java', '\tat java.base/java.util.ArrayList.get(ArrayList.java:427)')).toBeNull();
+  });
+});
+
+describe('parseDiagnostics', () => {
+  it('reads javac errors, with the column from the caret', () => {
+    const stderr = [
+      "Main.java:4: error: ';' expected",
+      '        int x = 1',
+      '                 ^',
+      '1 error',
+    ].join('\n');
+
+    expect(parseDiagnostics('java', stderr)).toEqual([
+      { line: 4, column: 18, severity: 'error', message: "';' expected" },
+    ]);
+  });
+
+  it('reads g++ errors and warnings', () => {
+    const stderr = [
+      "main.cpp:5:9: warning: unused variable 'y' [-Wunused-variable]",
+      "main.cpp:6:3: error: 'cout' was not declared in this scope",
+    ].join('\n');
+
+    expect(parseDiagnostics('cpp', stderr)).toEqual([
+      { line: 5, column: 9, severity: 'warning', message: "unused variable 'y' [-Wunused-variable]" },
+      { line: 6, column: 3, severity: 'error', message: "'cout' was not declared in this scope" },
+    ]);
+  });
+
+  it('reads rustc errors from their header and location lines', () => {
+    const stderr = [
+      'error[E0308]: mismatched types',
+      ' --> src/main.rs:3:18',
+      '  |',
+      'error: aborting due to 1 previous error',
+    ].join('\n');
+
+    expect(parseDiagnostics('rust', stderr)).toEqual([
+      { line: 3, column: 18, severity: 'error', message: 'mismatched types' },
+    ]);
+  });
+
+  it('points at the innermost frame of a Python traceback', () => {
+    const stderr = [
+      'Traceback (most recent call last):',
+      '  File "<exec>", line 5, in <module>',
+      '  File "<exec>", line 2, in divide',
+      'ZeroDivisionError: division by zero',
+    ].join('\n');
+
+    expect(parseDiagnostics('python', stderr)).toEqual([
+      { line: 2, column: 1, severity: 'error', message: 'ZeroDivisionError: division by zero' },
+    ]);
+  });
+
+  it('points at the first frame of a JavaScript stack', () => {
+    const stderr = [
+      'Uncaught TypeError: Cannot read properties of undefined',
+      '    at first (main.js:2:15)',
+      '    at main.js:5:1',
+    ].join('\n');
+
+    expect(parseDiagnostics('javascript', stderr)).toEqual([
+      { line: 2, column: 15, severity: 'error', message: 'Uncaught TypeError: Cannot read properties of undefined' },
+    ]);
+  });
+
+  it('reads a Rust panic message from the line after its location', () => {
+    const stderr = [
+      "thread 'main' panicked at src/main.rs:4:5:",
+      'index out of bounds: the len is 3 but the index is 5',
+    ].join('\n');
+
+    expect(parseDiagnostics('rust', stderr)).toEqual([
+      { line: 4, column: 5, severity: 'error', message: 'index out of bounds: the len is 3 but the index is 5' },
+    ]);
+  });
+
+  it('finds nothing in output without a location', () => {
+    expect(parseDiagnostics('go', 'exit status 1')).toEqual([]);
+  });
+});
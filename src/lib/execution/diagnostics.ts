@@ -0,0 +1,127 @@
+import type { ProgrammingLanguage } from './types';
+
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+export interface Diagnostic extends SourceLocation {
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+// Where an output line points into the learner's own file. Lessons are single
+// files, which the runners name main.* (Main.java for Java, <exec> in Pyodide);
+// frames in other files belong to the runtime or standard library.
+const locationPatterns: Record<ProgrammingLanguage, RegExp> = {
+  python: /File "<exec>", line (\d+)/,
+  javascript: /\bmain\.js:(\d+):(\d+)/,
+  java: /\bMain\.java:(\d+)/,
+  cpp: /\bmain\.cpp:(\d+)(?::(\d+))?/,
+  go: /\b(?:main|prog)\.go:(\d+)(?::(\d+))?/,
+  rust: /\bmain\.rs:(\d+)(?::(\d+))?/,
+};
+
+// Compiler diagnostics that carry their message on the same line as the location
+const compilerPatterns: Partial<Record<ProgrammingLanguage, RegExp>> = {
+  java: /\bMain\.java:(\d+): (error|warning): (.*)/,
+  cpp: /\bmain\.cpp:(\d+):(\d+): (?:fatal )?(error|warning): (.*)/,
+  go: /\b(?:main|prog)\.go:(\d+):(\d+): (.*)/,
+};
+
+// The line that says what went wrong when a program crashes
+const runtimeMessagePatterns: Record<ProgrammingLanguage, RegExp> = {
+  python: /^\w*(Error|Exception|Interrupt|Exit)\b/,
+  javascript: /^Uncaught /,
+  java: /^Exception in thread|^[\w.$]+(Exception|Error)\b/,
+  cpp: /^terminate called|Segmentation fault|Aborted/,
+  go: /^panic: /,
+  rust: /panicked at/,
+};
+
+/** Finds the place in the learner's code one line of program output refers to, if any. */
+export function findLocation(language: ProgrammingLanguage, outputLine: string): SourceLocation | null {
+  const match = locationPatterns[language].exec(outputLine);
+  return match ? { line: Number(match[1]), column: match[2] ? Number(match[2]) : 1 } : null;
+}
+
+function compilerDiagnostics(language: ProgrammingLanguage, lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  // rustc puts the message on a header line and the location on a "-->" line below it
+  if (language === 'rust') {
+    let header: { severity: Diagnostic['severity']; message: string } | null = null;
+    for (const line of lines) {
+      const headerMatch = /^(error|warning)(?:\[\w+\])?: (.*)/.exec(line);
+      const arrowMatch = /-->\s*(?:src\/)?main\.rs:(\d+):(\d+)/.exec(line);
+      if (headerMatch) {
+        header = { severity: headerMatch[1] as Diagnostic['severity'], message: headerMatch[2] };
+      } else if (arrowMatch && header) {
+        diagnostics.push({ ...header, line: Number(arrowMatch[1]), column: Number(arrowMatch[2]) });
+        header = null;
+      }
+    }
+    return diagnostics;
+  }
+
+  const pattern = compilerPatterns[language];
+  if (!pattern) return diagnostics;
+
+  lines.forEach((line, index) => {
+    const match = pattern.exec(line);
+    if (!match) return;
+
+    if (language === 'java') {
+      // javac has no column, but draws a caret under the problem two lines down
+      const caret = lines[index + 2]?.match(/^(\s*)\^\s*$/);
+      diagnostics.push({
+        line: Number(match[1]),
+        column: caret ? caret[1].length + 1 : 1,
+        severity: match[2] as Diagnostic['severity'],
+        message: match[3],
+      });
+    } else if (language === 'cpp') {
+      diagnostics.push({
+        line: Number(match[1]),
+        column: Number(match[2]),
+        severity: match[3] as Diagnostic['severity'],
+        message: match[4],
+      });
+    } else {
+      diagnostics.push({ line: Number(match[1]), column: Number(match[2]), severity: 'error', message: match[3] });
+    }
+  });
+  return diagnostics;
+}
+
+function runtimeDiagnostic(language: ProgrammingLanguage, lines: string[]): Diagnostic | null {
+  const locations = lines.map((line) => findLocation(language, line)).filter(Boolean) as SourceLocation[];
+  if (locations.length === 0) return null;
+
+  // Python lists the innermost frame last; the other runtimes list it first
+  const location = language === 'python' ? locations[locations.length - 1] : locations[0];
+  const messageLines = lines.filter((line) => runtimeMessagePatterns[language].test(line.trim()));
+  const messageLine = language === 'python' ? messageLines[messageLines.length - 1] : messageLines[0];
+
+  let message = messageLine?.trim().replace(/^Exception in thread "\w+" /, '') ?? 'The program crashed here';
+  // Newer Rust versions put the panic message on the line after "panicked at main.rs:4:5:"
+  if (language === 'rust' && messageLine?.trimEnd().endsWith(':')) {
+    message = lines[lines.indexOf(messageLine) + 1]?.trim() || message;
+  }
+
+  return { ...location, message, severity: 'error' };
+}
+
+/**
+ * Reads compiler diagnostics, or the location of a crash, out of a failed run's
+ * stderr: Python tracebacks, JavaScript stack frames, javac, g++, go and rustc
+ * errors, and Java, Go and Rust runtime traces.
+ */
+export function parseDiagnostics(language: ProgrammingLanguage, stderr: string): Diagnostic[] {
+  const lines = stderr.split('\n');
+  const diagnostics = compilerDiagnostics(language, lines);
+  if (diagnostics.length > 0) return diagnostics;
+
+  const crash = runtimeDiagnostic(language, lines);
+  return crash ? [crash] : [];
+}
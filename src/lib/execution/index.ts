@@ -0,0 +1,49 @@
+import { parseDiagnostics } from './diagnostics';
+import { interactiveInputSupported } from './input-channel';
+import { debugJavaScript, runJavaScript } from './javascript-runner';
+import { debugPython, preloadPython, runPython } from './python-runner';
+import { createRemoteRunner } from './remote-runner';
+import type { CodeRunner, ProgrammingLanguage } from './types';
+
+export * from './types';
+export { findLocation, parseDiagnostics, type Diagnostic, type SourceLocation } from './diagnostics';
+export {
+  nextStep,
+  type DebugFrame,
+  type DebugOutput,
+  type DebugStep,
+  type DebugTrace,
+  type DebugVariable,
+  type StepCommand,
+} from './debug';
+
+const runners: Record<ProgrammingLanguage, CodeRunner> = {
+  python: { run: runPython, preload: preloadPython, interactive: interactiveInputSupported(), debug: debugPython },
+  javascript: { run: runJavaScript, interactive: interactiveInputSupported(), debug: debugJavaScript },
+  java: createRemoteRunner('java'),
+  cpp: createRemoteRunner('cpp'),
+  go: createRemoteRunner('go'),
+  rust: createRemoteRunner('rust'),
+};
+
+/**
+ * Returns the runner for a language. Failed runs come back with the diagnostics
+ * their stderr points to.
+ */
+export function getRunner(language: ProgrammingLanguage): CodeRunner {
+  const runner = runners[language];
+  return {
+    ...runner,
+    async run(code, options) {
+      const result = await runner.run(code, options);
+      return result.status === 'success' ? result : { ...result, diagnostics: parseDiagnostics(language, result.stderr) };
+    },
+  };
+}
+
+/**
+ * Replaces the runner for a language, e.g. with a local stub in tests.
+ */
+export function registerRunner(language: ProgrammingLanguage, runner: CodeRunner) {
+  runners[language] = runner;
+}
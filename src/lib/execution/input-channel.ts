@@ -0,0 +1,42 @@
+// Lets a worker block until the page hands it a line of input, as a terminal
+// would. The worker asks for input with a message, then waits on shared memory
+// that the page fills in. Browsers only allow SharedArrayBuffer on cross-origin
+// isolated pages; elsewhere programs read the input given up front.
+
+const STATE = 0;
+const LENGTH = 1;
+const WAITING = 0;
+const READY = 1;
+const HEADER_BYTES = 8;
+const MAX_INPUT_BYTES = 16 * 1024;
+
+export const interactiveInputSupported = () =>
+  typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+
+export const createInputBuffer = () => new SharedArrayBuffer(HEADER_BYTES + MAX_INPUT_BYTES);
+
+/** Hands a waiting worker a line of input, or null for end of input. */
+export function sendInput(buffer: SharedArrayBuffer, line: string | null) {
+  const control = new Int32Array(buffer, 0, 2);
+
+  if (line === null) {
+    Atomics.store(control, LENGTH, -1);
+  } else {
+    const bytes = new TextEncoder().encode(line).slice(0, MAX_INPUT_BYTES);
+    new Uint8Array(buffer, HEADER_BYTES).set(bytes);
+    Atomics.store(control, LENGTH, bytes.length);
+  }
+  Atomics.store(control, STATE, READY);
+  Atomics.notify(control, STATE);
+}
+
+/** Blocks the calling worker until the page sends a line; null means end of input. */
+export function receiveInput(buffer: SharedArrayBuffer): string | null {
+  const control = new Int32Array(buffer, 0, 2);
+  Atomics.wait(control, STATE, WAITING);
+  Atomics.store(control, STATE, WAITING);
+
+  const length = Atomics.load(control, LENGTH);
+  // TextDecoder refuses views of shared memory, so decode a copy
+  return length < 0 ? null : new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES, length).slice());
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { DEBUG_HOOK, instrumentJavaScript } from './javascript-instrument';
+
+interface RecordedStep {
+  line: number;
+  stack: string[];
+  variables: Record<string, unknown>;
+}
+
+// Runs instrumented code against a hook that records what the worker's would
+const run = (code: string) => {
+  const steps: RecordedStep[] = [];
+  const frames: string[] = ['(program)'];
+  const hook = {
+    step: (line: number, scope: [string, () => unknown][]) => {
+      const variables: Record<string, unknown> = {};
+      for (const [name, read] of scope) {
+        try {
+          variables[name] = read();
+        } catch {
+          // Still in its temporal dead zone
+        }
+      }
+      steps.push({ line, stack: [...frames], variables });
+    },
+    enter: (name: string) => {
+      frames.push(name);
+      return frames.length - 1;
+    },
+    exit: (frame: number) => {
+      frames.splice(frame, 1);
+    },
+  };
+  const result = new Function(DEBUG_HOOK, instrumentJavaScript(code))(hook);
+  return { result, steps };
+};
+
+describe('instrumentJavaScript', () => {
+  it('keeps line numbers', () => {
+    const code = 'let total = 0;\nfor (const n of [1, 2]) {\n  total += n;\n}\nreturn total;';
+
+    expect(instrumentJavaScript(code).split('\n')).toHaveLength(code.split('\n').length);
+  });
+
+  it('records each statement with the variables in scope', () => {
+    const { result, steps } = run('let a = 1;\nlet b = a + 1;\nreturn a + b;');
+
+    expect(result).toBe(3);
+    expect(steps.map((step) => step.line)).toEqual([1, 2, 3]);
+    expect(steps[0].variables).toEqual({});
+    expect(steps[2].variables).toEqual({ a: 1, b: 2 });
+  });
+
+  it('records the calls each statement runs in', () => {
+    const { steps } = run('const double = (x) => x * 2;\nfunction twice(x) {\n  return double(x);\n}\ntwice(1);');
+
+    expect(steps.map((step) => [step.line, step.stack])).toEqual([
+      [1, ['(program)']],
+      [5, ['(program)']],
+      [3, ['(program)', 'twice']],
+      [1, ['(program)', 'twice', 'double']],
+    ]);
+  });
+
+  it('gives braces to bodies that are single statements', () => {
+    const { result, steps } = run('let count = 0;\nfor (let i = 0; i < 2; i++) count++;\nif (count) count *= 10;\nreturn count;');
+
+    expect(result).toBe(20);
+    expect(steps.filter((step) => step.line === 2)).toHaveLength(3);
+  });
+
+  it('keeps a function in strict mode after its "use strict"', () => {
+    const { result } = run('function self() {\n  "use strict";\n  return this;\n}\nreturn self();');
+
+    expect(result).toBeUndefined();
+  });
+
+  it('keeps a directive without a semicolon in effect', () => {
+    const { result } = run('function self() {\n  "use strict"\n  return this;\n}\nreturn self();');
+
+    expect(result).toBeUndefined();
+  });
+
+  it("finds an arrow's => past one in a comment", () => {
+    const { result, steps } = run('const f = x => /* => */ x * 2;\nreturn f(21);');
+
+    expect(result).toBe(42);
+    expect(steps.at(-1)).toMatchObject({ line: 1, stack: ['(program)', 'f'], variables: { x: 21 } });
+  });
+
+  it('keeps parentheses around an arrow body', () => {
+    const { result } = run('const wrap = (x) => ({ x });\nreturn wrap(1);');
+
+    expect(result).toEqual({ x: 1 });
+  });
+});
@@ -0,0 +1,224 @@
+import { tokenizer, tokTypes, type AnyNode, type Function as FunctionNode, type Pattern, type Statement } from 'acorn';
+import { childNodes, parseJavaScript } from './javascript-syntax';
+
+/** The parameter instrumented code reports to the debugger through. */
+export const DEBUG_HOOK = '$$debug';
+
+interface Insertion {
+  pos: number;
+  text: string;
+  /** Closing text goes before opening text at the same position, innermost first. */
+  closing: boolean;
+  order: number;
+}
+
+// Statements that don't run anything worth stopping at
+const SILENT_STATEMENTS = new Set(['FunctionDeclaration', 'ClassDeclaration', 'EmptyStatement']);
+
+const isFunction = (node: AnyNode): node is AnyNode & FunctionNode =>
+  node.type === 'FunctionDeclaration' || node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression';
+
+const unique = (names: string[]) => [...new Set(names)];
+
+const isDirective = (statement: AnyNode) => statement.type === 'ExpressionStatement' && Boolean(statement.directive);
+
+// The last statement of a body's directive prologue, like "use strict"
+const lastDirective = (statements: AnyNode[]) => {
+  let last: AnyNode | null = null;
+  for (const statement of statements) {
+    if (!isDirective(statement)) break;
+    last = statement;
+  }
+  return last;
+};
+
+// Where an arrow function's `=>` ends. Tokenizing skips any `=>` in a comment or string before the body.
+const arrowEnd = (code: string, fn: AnyNode & FunctionNode) => {
+  let end = fn.body.start;
+  for (const token of tokenizer(code.slice(fn.start, fn.body.start), { ecmaVersion: 'latest' })) {
+    if (token.type === tokTypes.arrow) end = fn.start + token.end;
+  }
+  return end;
+};
+
+const patternNames = (pattern: Pattern | null): string[] => {
+  if (!pattern) return [];
+  switch (pattern.type) {
+    case 'Identifier':
+      return [pattern.name];
+    case 'ObjectPattern':
+      return pattern.properties.flatMap((property) =>
+        patternNames(property.type === 'RestElement' ? property.argument : property.value)
+      );
+    case 'ArrayPattern':
+      return pattern.elements.flatMap(patternNames);
+    case 'AssignmentPattern':
+      return patternNames(pattern.left);
+    case 'RestElement':
+      return patternNames(pattern.argument);
+    default:
+      return [];
+  }
+};
+
+// `var` declarations anywhere in a function body, outside nested functions
+const varNames = (node: AnyNode): string[] => {
+  if (isFunction(node)) return [];
+  if (node.type === 'VariableDeclaration' && node.kind === 'var') {
+    return node.declarations.flatMap((declaration) => [
+      ...patternNames(declaration.id),
+      ...(declaration.init ? varNames(declaration.init) : []),
+    ]);
+  }
+  return childNodes(node).flatMap(varNames);
+};
+
+// let and const declarations made directly in a block
+const blockNames = (statements: AnyNode[]) =>
+  statements.flatMap((statement) =>
+    statement.type === 'VariableDeclaration' && statement.kind !== 'var'
+      ? statement.declarations.flatMap((declaration) => patternNames(declaration.id))
+      : []
+  );
+
+/**
+ * Rewrites a program so it reports each statement it is about to run, with
+ * the variables in scope, and each function call it enters and leaves. Code
+ * is only added within lines, so line numbers stay the same.
+ */
+export function instrumentJavaScript(code: string): string {
+  const program = parseJavaScript(code);
+
+  const insertions: Insertion[] = [];
+  const insert = (pos: number, text: string, closing = false) =>
+    insertions.push({ pos, text, closing, order: insertions.length });
+  const functionNames = new WeakMap<AnyNode, string>();
+
+  // Each variable is read separately, so one still in its temporal dead zone doesn't hide the others
+  const step = (node: AnyNode, names: string[]) =>
+    `${DEBUG_HOOK}.step(${node.loc.start.line}, [${names.map((name) => `["${name}", () => ${name}]`).join(', ')}]);`;
+
+  const visitStatements = (statements: AnyNode[], names: string[]) => {
+    const scope = unique([...names, ...blockNames(statements)]);
+    for (const statement of statements) {
+      if (!SILENT_STATEMENTS.has(statement.type) && !isDirective(statement)) {
+        insert(statement.start, step(statement, scope));
+      }
+      visit(statement, scope);
+    }
+  };
+
+  // The body of an if or a loop that isn't a block gets braces, so it can hold a step
+  const visitBody = (body: Statement, names: string[]) => {
+    if (body.type === 'BlockStatement') {
+      visit(body, names);
+      return;
+    }
+    insert(body.start, '{ ');
+    insert(body.end, ' }', true);
+    visitStatements([body], names);
+  };
+
+  const visitFunction = (fn: AnyNode & FunctionNode, names: string[]) => {
+    const name = fn.id?.name ?? functionNames.get(fn) ?? '(anonymous)';
+    const scope = unique([...fn.params.flatMap(patternNames), ...varNames(fn.body)]);
+    const enter = `const $$frame = ${DEBUG_HOOK}.enter(${JSON.stringify(name)}, ${fn.loc.start.line}); try {`;
+    const exit = `} finally { ${DEBUG_HOOK}.exit($$frame); }`;
+
+    fn.params.forEach((param) => visit(param, names));
+    if (fn.body.type === 'BlockStatement') {
+      // After the directive prologue, so a "use strict" still applies to the function
+      const directive = lastDirective(fn.body.body);
+      if (directive) {
+        insert(directive.end, `${code[directive.end - 1] === ';' ? '' : ';'} ${enter}`);
+      } else {
+        insert(fn.body.start + 1, ` ${enter}`);
+      }
+      insert(fn.body.end - 1, `${exit} `, true);
+      visitStatements(fn.body.body, scope);
+    } else {
+      // An arrow's expression body becomes a block; fn.end also covers any parentheses around it
+      insert(arrowEnd(code, fn), ` { ${enter} ${step(fn.body, scope)} return (`);
+      insert(fn.end, `); ${exit} }`, true);
+      visit(fn.body, scope);
+    }
+  };
+
+  const visit = (node: AnyNode, names: string[]) => {
+    if (isFunction(node)) {
+      visitFunction(node, names);
+      return;
+    }
+
+    switch (node.type) {
+      case 'BlockStatement':
+      case 'StaticBlock':
+        visitStatements(node.body, names);
+        return;
+      case 'SwitchStatement': {
+        visit(node.discriminant, names);
+        const scope = unique([...names, ...blockNames(node.cases.flatMap((switchCase) => switchCase.consequent))]);
+        for (const switchCase of node.cases) {
+          if (switchCase.test) visit(switchCase.test, scope);
+          visitStatements(switchCase.consequent, scope);
+        }
+        return;
+      }
+      case 'IfStatement':
+        visit(node.test, names);
+        visitBody(node.consequent, names);
+        if (node.alternate) visitBody(node.alternate, names);
+        return;
+      case 'ForStatement': {
+        const scope = node.init?.type === 'VariableDeclaration' ? unique([...names, ...blockNames([node.init])]) : names;
+        [node.init, node.test, node.update].forEach((part) => part && visit(part, scope));
+        visitBody(node.body, scope);
+        return;
+      }
+      case 'ForInStatement':
+      case 'ForOfStatement': {
+        const scope = unique([...names, ...blockNames([node.left])]);
+        visit(node.left, scope);
+        visit(node.right, names);
+        visitBody(node.body, scope);
+        return;
+      }
+      case 'WhileStatement':
+      case 'DoWhileStatement':
+        visit(node.test, names);
+        visitBody(node.body, names);
+        return;
+      case 'CatchClause':
+        visit(node.body, unique([...names, ...patternNames(node.param)]));
+        return;
+      case 'VariableDeclarator':
+        if (node.id.type === 'Identifier' && node.init) functionNames.set(node.init, node.id.name);
+        break;
+      case 'AssignmentExpression':
+        if (node.left.type === 'Identifier') functionNames.set(node.right, node.left.name);
+        break;
+      case 'Property':
+      case 'MethodDefinition':
+      case 'PropertyDefinition':
+        if (node.key.type === 'Identifier' && node.value) functionNames.set(node.value, node.key.name);
+        break;
+    }
+
+    childNodes(node).forEach((child) => visit(child, names));
+  };
+
+  visitStatements(program.body, unique(varNames(program)));
+
+  insertions.sort(
+    (a, b) =>
+      a.pos - b.pos || Number(b.closing) - Number(a.closing) || (a.closing ? b.order - a.order : a.order - b.order)
+  );
+
+  let instrumented = '';
+  let copied = 0;
+  for (const { pos, text } of insertions) {
+    instrumented += code.slice(copied, pos) + text;
+    copied = pos;
+  }
+  return instrumented + code.slice(copied);
+}
@@ -0,0 +1,105 @@
+import { recordTrace, type DebugStep, type DebugTrace, type RecordedRun } from './debug';
+import { createInputBuffer, interactiveInputSupported, sendInput } from './input-channel';
+import type { JavaScriptWorkerRequest, JavaScriptWorkerResponse } from './javascript.worker';
+import { DEFAULT_TIMEOUT_MS, MAX_OUTPUT_BYTES, type ExecutionOptions, type ExecutionResult } from './types';
+
+// Normal runs and debugger recordings share the worker; recordings also report their steps
+function execute(code: string, options: ExecutionOptions, debug: boolean): Promise<RecordedRun> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, stdin = '', onStdout, onStderr, onInput } = options;
+
+  const worker = new Worker(new URL('./javascript.worker.ts', import.meta.url), { type: 'module' });
+  const inputBuffer = onInput && interactiveInputSupported() ? createInputBuffer() : null;
+  const startedAt = performance.now();
+  // Time spent waiting for input doesn't count against the time limit
+  let waitedMs = 0;
+  let finished = false;
+  let stdout = '';
+  let stderr = '';
+  let steps: DebugStep[] = [];
+  let truncated = false;
+
+  return new Promise((resolve) => {
+    const elapsedMs = () => performance.now() - startedAt - waitedMs;
+
+    const finish = (result: Omit<ExecutionResult, 'stdout' | 'stderr' | 'durationMs'>) => {
+      finished = true;
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({
+        result: { ...result, stdout, stderr, durationMs: Math.round(elapsedMs()) },
+        steps,
+        truncated,
+      });
+    };
+
+    const startTimer = () =>
+      setTimeout(() => finish({ status: 'timeout', exitCode: 124 }), Math.max(0, timeoutMs - elapsedMs()));
+    let timer = startTimer();
+
+    const readInput = async () => {
+      clearTimeout(timer);
+      const waitStartedAt = performance.now();
+      const line = await onInput();
+      if (finished) return;
+
+      waitedMs += performance.now() - waitStartedAt;
+      timer = startTimer();
+      sendInput(inputBuffer, line);
+    };
+
+    worker.onmessage = (event: MessageEvent<JavaScriptWorkerResponse>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'stdout':
+          stdout += message.data;
+          onStdout?.(message.data);
+          break;
+        case 'stderr':
+          stderr += message.data;
+          onStderr?.(message.data);
+          break;
+        case 'input':
+          readInput();
+          break;
+        case 'steps':
+          steps = message.steps;
+          truncated = message.truncated;
+          break;
+        case 'done':
+          finish({ status: message.status, exitCode: message.exitCode });
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      stderr += `${event.message || 'Failed to start the JavaScript sandbox'}\n`;
+      finish({ status: 'internal_error', exitCode: 1 });
+    };
+
+    const request: JavaScriptWorkerRequest = {
+      type: 'run',
+      code,
+      stdin,
+      inputBuffer,
+      maxOutputBytes: MAX_OUTPUT_BYTES,
+      debug,
+    };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Runs JavaScript in a throwaway worker with no DOM and no network access.
+ * The run ends once pending timers and promises settle, or at the deadline.
+ */
+export function runJavaScript(code: string, options: ExecutionOptions = {}): Promise<ExecutionResult> {
+  return execute(code, options, false).then(({ result }) => result);
+}
+
+/**
+ * Runs JavaScript instrumented to record each step, for the debugger.
+ */
+export function debugJavaScript(code: string, options?: ExecutionOptions): Promise<DebugTrace> {
+  return recordTrace((source, recordOptions) => execute(source, recordOptions, true), code, options);
+}
@@ -0,0 +1,30 @@
+import { parse, type AnyNode, type Program } from 'acorn';
+
+/** Parses a lesson the way the worker runs it: as the body of an async function. */
+export const parseJavaScript = (code: string): Program =>
+  parse(code, {
+    ecmaVersion: 'latest',
+    sourceType: 'script',
+    locations: true,
+    allowAwaitOutsideFunction: true,
+    allowReturnOutsideFunction: true,
+  });
+
+const isNode = (value: unknown): value is AnyNode =>
+  typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+
+export const childNodes = (node: AnyNode) =>
+  Object.values(node).flatMap((value) => (Array.isArray(value) ? value.filter(isNode) : isNode(value) ? [value] : []));
+
+/**
+ * Finds the first `import()` in a program. Parsing rather than searching the
+ * text means comments or whitespace between `import` and `(` can't hide one.
+ */
+export function findDynamicImport(node: AnyNode): AnyNode | null {
+  if (node.type === 'ImportExpression') return node;
+  for (const child of childNodes(node)) {
+    const found = findDynamicImport(child);
+    if (found) return found;
+  }
+  return null;
+}
@@ -0,0 +1,348 @@
+import { MAX_DEBUG_STEPS, type DebugStep } from './debug';
+import { receiveInput } from './input-channel';
+import { findDynamicImport, parseJavaScript } from './javascript-syntax';
+import type { ExecutionStatus } from './types';
+
+export type JavaScriptWorkerRequest = {
+  type: 'run';
+  code: string;
+  stdin: string;
+  /** Where the page sends input once stdin runs out; null when input is given up front only. */
+  inputBuffer: SharedArrayBuffer | null;
+  maxOutputBytes: number;
+  /** Record every step for the debugger. */
+  debug: boolean;
+};
+
+export type JavaScriptWorkerResponse =
+  | { type: 'stdout' | 'stderr'; data: string }
+  | { type: 'input' }
+  | { type: 'steps'; steps: DebugStep[]; truncated: boolean }
+  | { type: 'done'; status: ExecutionStatus; exitCode: number };
+
+type TimerHandler = (...args: unknown[]) => void;
+
+// What instrumented code reports: the variables in scope, each read on demand
+type DebugScope = [string, () => unknown][];
+
+interface DebugFrameState {
+  name: string;
+  line: number;
+  scope: DebugScope;
+}
+
+const MAX_VALUE_LENGTH = 120;
+
+// Grab everything the runner needs before the learner's code can tamper with it.
+const post = self.postMessage.bind(self) as (message: JavaScriptWorkerResponse) => void;
+const nativeSetTimeout = self.setTimeout.bind(self);
+const nativeSetInterval = self.setInterval.bind(self);
+const nativeClearTimeout = self.clearTimeout.bind(self);
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as FunctionConstructor;
+
+// Capabilities learner code must not reach: the network, other workers and
+// storage, and anything that compiles code at runtime, since that code could
+// call import() without the syntax check below ever seeing it.
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'importScripts',
+  'Worker',
+  'SharedWorker',
+  'BroadcastChannel',
+  'indexedDB',
+  'caches',
+  'navigator',
+  'postMessage',
+  'eval',
+  'Function',
+];
+
+const lockDown = () => {
+  for (let scope: object | null = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+    for (const name of BLOCKED_GLOBALS) {
+      if (Object.prototype.hasOwnProperty.call(scope, name)) {
+        try {
+          delete (scope as Record<string, unknown>)[name];
+        } catch {
+          // Non-configurable properties are shadowed below instead.
+        }
+      }
+    }
+  }
+  for (const name of BLOCKED_GLOBALS) {
+    Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+  }
+
+  // Without these, `(function () {}).constructor('...')` would be an eval in disguise,
+  // as would the async and generator function constructors, which are not globals.
+  for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+    Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined, writable: false });
+  }
+};
+
+const formatValue = (value: unknown, depth = 0, seen = new Set<unknown>()): string => {
+  if (typeof value === 'string') return depth === 0 ? value : `'${value}'`;
+  if (typeof value === 'function') return `[Function: ${value.name || '(anonymous)'}]`;
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'symbol') return value.toString();
+  if (value === null || typeof value !== 'object') return String(value);
+  if (value instanceof Error) return value.stack?.split('\n')[0] ?? `${value.name}: ${value.message}`;
+  if (value instanceof Promise) return 'Promise { <pending> }';
+  if (seen.has(value)) return '[Circular]';
+  if (depth > 2) return Array.isArray(value) ? '[Array]' : '[Object]';
+
+  seen.add(value);
+  try {
+    const format = (item: unknown) => formatValue(item, depth + 1, seen);
+
+    if (Array.isArray(value)) {
+      return value.length === 0 ? '[]' : `[ ${value.map(format).join(', ')} ]`;
+    }
+    if (value instanceof Map) {
+      const entries = [...value].map(([key, item]) => `${format(key)} => ${format(item)}`);
+      return `Map(${value.size}) { ${entries.join(', ')} }`;
+    }
+    if (value instanceof Set) {
+      return `Set(${value.size}) { ${[...value].map(format).join(', ')} }`;
+    }
+
+    const entries = Object.entries(value).map(([key, item]) => `${key}: ${format(item)}`);
+    return entries.length === 0 ? '{}' : `{ ${entries.join(', ')} }`;
+  } finally {
+    seen.delete(value);
+  }
+};
+
+// Stack frames in the learner's code, e.g. "<anonymous>:5:11" in Chrome or "AsyncFunction:5:11" in Firefox
+const LEARNER_FRAME = /(?:<anonymous>|Function):(\d+):(\d+)/;
+
+// The Function constructor wraps the code in a header, which shifts the line numbers in stack traces
+const HEADER_LINES = (() => {
+  const match = LEARNER_FRAME.exec(new Function('return new Error().stack')() ?? '');
+  return match ? Number(match[1]) - 1 : 2;
+})();
+
+// Reports the learner's innermost frame like a Node stack frame, so the page can point at the line
+const describeError = (error: unknown) => {
+  if (!(error instanceof Error)) return `Uncaught ${formatValue(error, 1)}`;
+
+  const frame = LEARNER_FRAME.exec(error.stack ?? '');
+  const location = frame ? `\n    at main.js:${Number(frame[1]) - HEADER_LINES}:${frame[2]}` : '';
+  return `Uncaught ${error.name}: ${error.message}${location}`;
+};
+
+const run = async ({ code, stdin, inputBuffer, maxOutputBytes, debug }: JavaScriptWorkerRequest) => {
+  const stdinLines = stdin ? stdin.replace(/\n$/, '').split('\n') : [];
+  const pendingTimers = new Set<number>();
+  let wakeUp: (() => void) | null = null;
+  let outputBytes = 0;
+  let outputCount = 0;
+  let finished = false;
+
+  const steps: DebugStep[] = [];
+  const frames: DebugFrameState[] = [{ name: '<main>', line: 1, scope: [] }];
+  let truncated = false;
+  let recording = false;
+
+  const finish = (status: ExecutionStatus) => {
+    if (finished) return;
+    finished = true;
+    if (debug) post({ type: 'steps', steps, truncated });
+    post({ type: 'done', status, exitCode: status === 'success' ? 0 : 1 });
+    self.close();
+  };
+
+  const emit = (type: 'stdout' | 'stderr', data: string) => {
+    if (finished) return;
+
+    outputBytes += data.length;
+    if (outputBytes > maxOutputBytes) {
+      finish('output_limit_exceeded');
+      return;
+    }
+    post({ type, data });
+    outputCount++;
+  };
+
+  const write = (type: 'stdout' | 'stderr', args: unknown[]) =>
+    emit(type, `${args.map((arg) => formatValue(arg)).join(' ')}\n`);
+
+  // There is no dialog to show, so prompt() reads the next line of stdin, then
+  // asks the page for more like a terminal would.
+  const prompt = (message?: unknown) => {
+    if (stdinLines.length > 0) return stdinLines.shift();
+    if (!inputBuffer || finished) return null;
+
+    if (message !== undefined) emit('stdout', String(message));
+    post({ type: 'input' });
+    return receiveInput(inputBuffer);
+  };
+
+  // Like Node, an uncaught error anywhere ends the program.
+  const crash = (error: unknown) => {
+    write('stderr', [describeError(error)]);
+    finish('runtime_error');
+  };
+
+  const snapshot = ({ name, line, scope }: DebugFrameState) => ({
+    name,
+    line,
+    // Variables still in their temporal dead zone throw, and are left out
+    variables: scope.flatMap(([variable, read]) => {
+      try {
+        const value = formatValue(read(), 1);
+        return [{ name: variable, value: value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value }];
+      } catch {
+        return [];
+      }
+    }),
+  });
+
+  // Instrumented code calls these; see javascript-instrument.ts
+  const debugHook = {
+    step: (line: number, scope: DebugScope) => {
+      // Formatting a value can run the learner's getters, which must not record steps of their own
+      if (recording || finished) return;
+
+      const frame = frames[frames.length - 1];
+      frame.line = line;
+      frame.scope = scope;
+      if (steps.length >= MAX_DEBUG_STEPS) {
+        truncated = true;
+        finish('success');
+        return;
+      }
+
+      recording = true;
+      try {
+        steps.push({ line, stack: frames.map(snapshot), outputCount });
+      } finally {
+        recording = false;
+      }
+    },
+    enter: (name: string, line: number) => {
+      const frame: DebugFrameState = { name, line, scope: [] };
+      frames.push(frame);
+      return frame;
+    },
+    // An async function can finish after its caller has, so frames aren't always popped in order
+    exit: (frame: DebugFrameState) => {
+      const index = frames.lastIndexOf(frame);
+      if (index >= 0) frames.splice(index, 1);
+    },
+  };
+
+  const settle = () => {
+    wakeUp?.();
+    wakeUp = null;
+  };
+
+  const schedule = (repeat: boolean) => (handler: TimerHandler, delay?: number, ...args: unknown[]) => {
+    if (typeof handler !== 'function') {
+      throw new TypeError('The "callback" argument must be of type function');
+    }
+
+    const callback = () => {
+      if (!repeat) pendingTimers.delete(handle);
+      try {
+        handler(...args);
+      } catch (error) {
+        crash(error);
+      }
+      settle();
+    };
+    const handle = repeat ? nativeSetInterval(callback, delay) : nativeSetTimeout(callback, delay);
+    pendingTimers.add(handle);
+    return handle;
+  };
+
+  const clearTimer = (handle?: number) => {
+    pendingTimers.delete(handle);
+    nativeClearTimeout(handle);
+    settle();
+  };
+
+  const sandboxConsole = {
+    log: (...args: unknown[]) => write('stdout', args),
+    info: (...args: unknown[]) => write('stdout', args),
+    debug: (...args: unknown[]) => write('stdout', args),
+    table: (...args: unknown[]) => write('stdout', args),
+    warn: (...args: unknown[]) => write('stderr', args),
+    error: (...args: unknown[]) => write('stderr', args),
+  };
+
+  Object.assign(self, {
+    console: sandboxConsole,
+    prompt,
+    setTimeout: schedule(false),
+    setInterval: schedule(true),
+    clearTimeout: clearTimer,
+    clearInterval: clearTimer,
+  });
+  self.addEventListener('error', (event) => {
+    event.preventDefault();
+    crash(event.error ?? event.message);
+  });
+  self.addEventListener('unhandledrejection', (event) => {
+    event.preventDefault();
+    crash(event.reason);
+  });
+
+  let program: () => Promise<unknown>;
+  try {
+    if (debug) {
+      const { DEBUG_HOOK, instrumentJavaScript } = await import('./javascript-instrument');
+      const instrumented = new AsyncFunction(DEBUG_HOOK, instrumentJavaScript(code)) as (
+        hook: typeof debugHook
+      ) => Promise<unknown>;
+      program = () => instrumented(debugHook);
+    } else {
+      program = new AsyncFunction(code) as () => Promise<unknown>;
+    }
+
+    // import() would load code from anywhere, bypassing the lockdown. The
+    // program has compiled by now, so acorn only fails on syntax it is behind on,
+    // and such a program is refused rather than run unchecked.
+    const dynamicImport = findDynamicImport(parseJavaScript(code));
+    if (dynamicImport) {
+      const { line, column } = dynamicImport.loc?.start ?? { line: 1, column: 0 };
+      write('stderr', [`SyntaxError: import() is not available in lessons\n    at main.js:${line}:${column + 1}`]);
+      finish('compile_error');
+      return;
+    }
+  } catch (error) {
+    write('stderr', [error instanceof Error ? `${error.name}: ${error.message}` : String(error)]);
+    finish('compile_error');
+    return;
+  }
+
+  lockDown();
+
+  try {
+    await program();
+  } catch (error) {
+    crash(error);
+    return;
+  }
+
+  // Keep the program alive while timers are pending, as Node's event loop would.
+  // A timer that never clears is cut off by the main thread's deadline.
+  do {
+    while (pendingTimers.size > 0 && !finished) {
+      await new Promise<void>((resolve) => (wakeUp = resolve));
+    }
+    await new Promise((resolve) => nativeSetTimeout(resolve, 0));
+  } while (pendingTimers.size > 0 && !finished);
+
+  finish('success');
+};
+
+self.onmessage = (event: MessageEvent<JavaScriptWorkerRequest>) => {
+  if (event.data.type === 'run') {
+    run(event.data);
+  }
+};
@@ -0,0 +1,30 @@
+# Checks memory every few thousand lines of the learner's code, so a program
+# that allocates without printing is still stopped. The worker sets
+# `memory_exceeded` in this module's globals and clears the trace once the
+# program has finished.
+import sys
+
+CHECK_EVERY = 2000
+
+lines = 0
+
+
+class MemoryLimitReached(BaseException):
+    """Stops a program that uses too much memory; not caught by `except Exception`."""
+
+
+def check(frame, event, arg):
+    global lines
+    if event == "line":
+        lines += 1
+        if lines % CHECK_EVERY == 0 and memory_exceeded():
+            raise MemoryLimitReached()
+    return check
+
+
+def guard(frame, event, arg):
+    # Only the learner's code is counted, not the standard library
+    return check if frame.f_code.co_filename == "<exec>" else None
+
+
+sys.settrace(guard)
@@ -0,0 +1,169 @@
+import { recordTrace, type DebugStep, type DebugTrace, type RecordedRun } from './debug';
+import { createInputBuffer, interactiveInputSupported, sendInput } from './input-channel';
+import type { PythonWorkerRequest, PythonWorkerResponse } from './python.worker';
+import {
+  DEFAULT_MEMORY_LIMIT_MB,
+  DEFAULT_TIMEOUT_MS,
+  MAX_OUTPUT_BYTES,
+  type ExecutionOptions,
+  type ExecutionResult,
+} from './types';
+
+// Downloading and booting Pyodide can take a while on a slow connection.
+const STARTUP_TIMEOUT_MS = 60000;
+
+let worker: Worker | null = null;
+let nextRunId = 1;
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./python.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+const discardWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+/**
+ * Starts downloading the Python runtime so the first run doesn't pay for it.
+ */
+export function preloadPython() {
+  getWorker();
+}
+
+// Normal runs and debugger recordings share the worker; recordings also report their steps
+function execute(code: string, options: ExecutionOptions, debug: boolean): Promise<RecordedRun> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    memoryLimitMb = DEFAULT_MEMORY_LIMIT_MB,
+    stdin = '',
+    onStdout,
+    onStderr,
+    onInput,
+  } = options;
+
+  const runWorker = getWorker();
+  const id = nextRunId++;
+  const inputBuffer = onInput && interactiveInputSupported() ? createInputBuffer() : null;
+  let stdout = '';
+  let stderr = '';
+  let startedAt = 0;
+  // Time spent waiting for input doesn't count against the time limit
+  let waitedMs = 0;
+  let finished = false;
+  let steps: DebugStep[] = [];
+  let truncated = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return new Promise((resolve) => {
+    const elapsedMs = () => performance.now() - startedAt - waitedMs;
+
+    const finish = (result: Omit<ExecutionResult, 'stdout' | 'stderr' | 'durationMs'>) => {
+      finished = true;
+      clearTimeout(timer);
+      runWorker.removeEventListener('message', handleMessage);
+      runWorker.removeEventListener('error', handleError);
+      resolve({
+        result: { ...result, stdout, stderr, durationMs: startedAt ? Math.round(elapsedMs()) : 0 },
+        steps,
+        truncated,
+      });
+    };
+
+    const startTimer = () => {
+      timer = setTimeout(() => {
+        discardWorker();
+        finish({ status: 'timeout', exitCode: 124 });
+      }, Math.max(0, timeoutMs - elapsedMs()));
+    };
+
+    const readInput = async () => {
+      clearTimeout(timer);
+      const waitStartedAt = performance.now();
+      const line = await onInput();
+      if (finished) return;
+
+      waitedMs += performance.now() - waitStartedAt;
+      startTimer();
+      sendInput(inputBuffer, line);
+    };
+
+    const handleMessage = (event: MessageEvent<PythonWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      switch (message.type) {
+        case 'started':
+          clearTimeout(timer);
+          startedAt = performance.now();
+          startTimer();
+          break;
+        case 'input':
+          readInput();
+          break;
+        case 'steps':
+          steps = message.steps;
+          truncated = message.truncated;
+          break;
+        case 'stdout':
+          stdout += message.data;
+          onStdout?.(message.data);
+          break;
+        case 'stderr':
+          stderr += message.data;
+          onStderr?.(message.data);
+          break;
+        case 'done':
+          // WASM memory never shrinks, so a runtime that hit the cap is useless afterwards.
+          if (message.status === 'memory_limit_exceeded') discardWorker();
+          finish({ status: message.status, exitCode: message.exitCode });
+          break;
+      }
+    };
+
+    const handleError = (event: ErrorEvent) => {
+      discardWorker();
+      stderr += `${event.message || 'Failed to start the Python runtime'}\n`;
+      finish({ status: 'internal_error', exitCode: 1 });
+    };
+
+    timer = setTimeout(() => {
+      discardWorker();
+      stderr += 'Timed out while loading the Python runtime\n';
+      finish({ status: 'internal_error', exitCode: 1 });
+    }, STARTUP_TIMEOUT_MS);
+
+    runWorker.addEventListener('message', handleMessage);
+    runWorker.addEventListener('error', handleError);
+
+    const request: PythonWorkerRequest = {
+      type: 'run',
+      id,
+      code,
+      stdin,
+      inputBuffer,
+      memoryLimitBytes: memoryLimitMb * 1024 * 1024,
+      maxOutputBytes: MAX_OUTPUT_BYTES,
+      debug,
+    };
+    runWorker.postMessage(request);
+  });
+}
+
+/**
+ * Runs Python code in a dedicated Pyodide worker. A run that exceeds its time
+ * limit has its worker terminated, so a runaway loop never blocks the page.
+ */
+export function runPython(code: string, options: ExecutionOptions = {}): Promise<ExecutionResult> {
+  return execute(code, options, false).then(({ result }) => result);
+}
+
+/**
+ * Runs Python code under a tracer that records each step, for the debugger.
+ */
+export function debugPython(code: string, options?: ExecutionOptions): Promise<DebugTrace> {
+  return recordTrace((source, recordOptions) => execute(source, recordOptions, true), code, options);
+}
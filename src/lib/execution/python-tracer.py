@@ -0,0 +1,77 @@
+# Runs the learner's code under sys.settrace, recording the call stack and
+# local variables before each line runs. The worker sets `code`, `max_steps`,
+# `output_count` and `memory_exceeded` in this module's globals, and reads
+# `trace_json` back.
+import json
+import sys
+import types
+
+MAX_VALUE_LENGTH = 120
+HIDDEN_TYPES = (types.ModuleType, types.FunctionType, type)
+
+steps = []
+truncated = False
+
+
+class StepLimitReached(BaseException):
+    """Stops a program that has run too many steps; not caught by `except Exception`."""
+
+
+class MemoryLimitReached(BaseException):
+    """Stops a program that uses too much memory; the worker reports it."""
+
+
+def describe(value):
+    try:
+        text = repr(value)
+    except Exception:
+        text = f"<{type(value).__name__}>"
+    return text if len(text) <= MAX_VALUE_LENGTH else text[:MAX_VALUE_LENGTH] + "…"
+
+
+def variables(frame):
+    return [
+        {"name": name, "value": describe(value)}
+        for name, value in frame.f_locals.items()
+        if not name.startswith("__") and not isinstance(value, HIDDEN_TYPES)
+    ]
+
+
+def stack(frame):
+    frames = []
+    while frame is not None and frame.f_code.co_filename == "<exec>":
+        frames.append({"name": frame.f_code.co_name, "line": frame.f_lineno, "variables": variables(frame)})
+        frame = frame.f_back
+    frames.reverse()
+    return frames
+
+
+def trace(frame, event, arg):
+    # Only the learner's code is stepped through, not the standard library
+    if frame.f_code.co_filename != "<exec>":
+        return None
+
+    if event == "line":
+        global truncated
+        if len(steps) >= max_steps:
+            truncated = True
+            raise StepLimitReached()
+        if memory_exceeded():
+            raise MemoryLimitReached()
+
+        # Output written so far has to reach the worker before it is counted
+        sys.stdout.flush()
+        sys.stderr.flush()
+        steps.append({"line": frame.f_lineno, "stack": stack(frame), "outputCount": output_count()})
+    return trace
+
+
+try:
+    compiled = compile(code, "<exec>", "exec")
+    sys.settrace(trace)
+    exec(compiled, {"__name__": "__main__"})
+except StepLimitReached:
+    pass
+finally:
+    sys.settrace(None)
+    trace_json = json.dumps({"steps": steps, "truncated": truncated})
@@ -0,0 +1,197 @@
+import { MAX_DEBUG_STEPS, type DebugStep } from './debug';
+import { receiveInput } from './input-channel';
+import pythonMemoryGuard from './python-memory-guard.py?raw';
+import pythonTracer from './python-tracer.py?raw';
+import type { ExecutionStatus } from './types';
+
+const PYODIDE_VERSION = '0.26.4';
+const PYODIDE_INDEX_URL = `https://cdn.jsdelivr.net/pyodide/v${PYODIDE_VERSION}/full/`;
+
+export type PythonWorkerRequest = {
+  type: 'run';
+  id: number;
+  code: string;
+  stdin: string;
+  /** Where the page sends input once stdin runs out; null when input is given up front only. */
+  inputBuffer: SharedArrayBuffer | null;
+  memoryLimitBytes: number;
+  maxOutputBytes: number;
+  /** Record every step for the debugger. */
+  debug: boolean;
+};
+
+export type PythonWorkerResponse =
+  | { type: 'started'; id: number }
+  | { type: 'input'; id: number }
+  | { type: 'steps'; id: number; steps: DebugStep[]; truncated: boolean }
+  | { type: 'stdout' | 'stderr'; id: number; data: string }
+  | { type: 'done'; id: number; status: ExecutionStatus; exitCode: number };
+
+// The subset of the Pyodide API this worker relies on.
+interface PyProxy {
+  destroy: () => void;
+}
+
+interface PyDict extends PyProxy {
+  get: (key: string) => unknown;
+  set: (key: string, value: unknown) => void;
+}
+
+interface Pyodide {
+  runPythonAsync: (code: string, options?: { globals?: PyDict; filename?: string }) => Promise<unknown>;
+  setStdout: (options: { write: (buffer: Uint8Array) => number; isatty?: boolean }) => void;
+  setStderr: (options: { write: (buffer: Uint8Array) => number; isatty?: boolean }) => void;
+  setStdin: (options: { stdin: () => string | null }) => void;
+  globals: { get: (name: string) => () => PyDict };
+  _module: { HEAPU8: Uint8Array };
+}
+
+class LimitExceeded extends Error {
+  constructor(public status: ExecutionStatus) {
+    super(status);
+  }
+}
+
+let pyodideReady: Promise<Pyodide> | null = null;
+
+const loadRuntime = () => {
+  if (!pyodideReady) {
+    pyodideReady = import(/* @vite-ignore */ `${PYODIDE_INDEX_URL}pyodide.mjs`).then(({ loadPyodide }) =>
+      loadPyodide({ indexURL: PYODIDE_INDEX_URL })
+    );
+  }
+  return pyodideReady;
+};
+
+const post = (message: PythonWorkerResponse) => self.postMessage(message);
+
+// Pyodide tracebacks include frames from its own runner; keep only the learner's.
+const cleanTraceback = (message: string) => {
+  const kept: string[] = [];
+  let skipping = false;
+
+  for (const line of message.split('\n')) {
+    if (line.startsWith('  File ')) {
+      skipping = !line.includes('"<exec>"');
+    } else if (!line.startsWith('    ')) {
+      skipping = false;
+    }
+    if (!skipping) kept.push(line);
+  }
+
+  return kept.join('\n');
+};
+
+const run = async ({ id, code, stdin, inputBuffer, memoryLimitBytes, maxOutputBytes, debug }: PythonWorkerRequest) => {
+  const pyodide = await loadRuntime();
+  let outputBytes = 0;
+  let outputCount = 0;
+  let limitStatus: ExecutionStatus | null = null;
+
+  // Python code cannot be pre-empted from inside the worker, so limits are
+  // enforced whenever the program writes output and, for memory, from a trace
+  // hook as it runs; the main thread enforces the timeout.
+  const memoryExceeded = () => {
+    if (pyodide._module.HEAPU8.byteLength > memoryLimitBytes) {
+      limitStatus = 'memory_limit_exceeded';
+    }
+    return limitStatus === 'memory_limit_exceeded';
+  };
+
+  const stream = (type: 'stdout' | 'stderr') => {
+    const decoder = new TextDecoder();
+
+    return (buffer: Uint8Array) => {
+      if (limitStatus) throw new LimitExceeded(limitStatus);
+
+      outputBytes += buffer.length;
+      if (outputBytes > maxOutputBytes) {
+        limitStatus = 'output_limit_exceeded';
+      } else {
+        memoryExceeded();
+      }
+      if (limitStatus) throw new LimitExceeded(limitStatus);
+
+      post({ type, id, data: decoder.decode(buffer, { stream: true }) });
+      outputCount++;
+      return buffer.length;
+    };
+  };
+
+  // Unbatched, line-buffered streams, so an input() prompt shows before the program waits.
+  pyodide.setStdout({ write: stream('stdout'), isatty: true });
+  pyodide.setStderr({ write: stream('stderr'), isatty: true });
+
+  // Hand over all of stdin at once; Pyodide buffers it and asks again once it
+  // runs out, which is when the page is asked for more.
+  let pendingStdin: string | null = stdin || null;
+  pyodide.setStdin({
+    stdin: () => {
+      if (pendingStdin !== null) {
+        const chunk = pendingStdin;
+        pendingStdin = null;
+        return chunk;
+      }
+      if (!inputBuffer) return null;
+
+      post({ type: 'input', id });
+      const line = receiveInput(inputBuffer);
+      return line === null ? null : `${line}\n`;
+    },
+  });
+
+  const globals = pyodide.globals.get('dict')();
+  // The guard lives in its own namespace, out of the learner's way
+  const guardGlobals = pyodide.globals.get('dict')();
+  guardGlobals.set('memory_exceeded', memoryExceeded);
+  post({ type: 'started', id });
+
+  // The tracer leaves its recording in trace_json even when the program fails
+  const postSteps = () => {
+    const trace = globals.get('trace_json');
+    if (typeof trace === 'string') {
+      const { steps, truncated } = JSON.parse(trace) as { steps: DebugStep[]; truncated: boolean };
+      post({ type: 'steps', id, steps, truncated });
+    }
+  };
+
+  try {
+    if (debug) {
+      globals.set('code', code);
+      globals.set('max_steps', MAX_DEBUG_STEPS);
+      globals.set('output_count', () => outputCount);
+      globals.set('memory_exceeded', memoryExceeded);
+      await pyodide.runPythonAsync(pythonTracer, { globals, filename: '<debugger>' });
+      postSteps();
+    } else {
+      await pyodide.runPythonAsync(pythonMemoryGuard, { globals: guardGlobals, filename: '<guard>' });
+      await pyodide.runPythonAsync(code, { globals });
+    }
+    memoryExceeded();
+    post({ type: 'done', id, status: limitStatus ?? 'success', exitCode: limitStatus ? 1 : 0 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = limitStatus ?? (/^(SyntaxError|IndentationError|TabError)\b/m.test(message) ? 'compile_error' : 'runtime_error');
+
+    if (debug) postSteps();
+    if (!limitStatus) {
+      post({ type: 'stderr', id, data: `${cleanTraceback(message).trimEnd()}\n` });
+    }
+    post({ type: 'done', id, status, exitCode: 1 });
+  } finally {
+    await pyodide.runPythonAsync('import sys\nsys.settrace(None)', { globals: guardGlobals });
+    guardGlobals.destroy();
+    globals.destroy();
+  }
+};
+
+self.onmessage = (event: MessageEvent<PythonWorkerRequest>) => {
+  if (event.data.type === 'run') {
+    run(event.data).catch((error) => {
+      post({ type: 'stderr', id: event.data.id, data: `${String(error)}\n` });
+      post({ type: 'done', id: event.data.id, status: 'internal_error', exitCode: 1 });
+    });
+  }
+};
+
+loadRuntime();
@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_MEMORY_LIMIT_MB,
+  DEFAULT_TIMEOUT_MS,
+  type CodeRunner,
+  type ExecutionResult,
+  type ProgrammingLanguage,
+} from './types';
+
+/**
+ * Creates a runner that executes code through the `execute-code` edge function,
+ * for compiled languages that cannot run in the browser.
+ */
+export function createRemoteRunner(language: ProgrammingLanguage): CodeRunner {
+  return {
+    async run(code, options = {}) {
+      const { timeoutMs = DEFAULT_TIMEOUT_MS, memoryLimitMb = DEFAULT_MEMORY_LIMIT_MB, stdin = '', onStdout, onStderr } = options;
+
+      const { data, error } = await supabase.functions.invoke<ExecutionResult>('execute-code', {
+        body: { language, code, stdin, timeoutMs, memoryLimitMb },
+      });
+
+      const result: ExecutionResult = error
+        ? { status: 'internal_error', stdout: '', stderr: `${error.message}\n`, exitCode: 1, durationMs: 0 }
+        : data;
+
+      // The edge function returns output in one piece, so "stream" it once.
+      if (result.stdout) onStdout?.(result.stdout);
+      if (result.stderr) onStderr?.(result.stderr);
+
+      return result;
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import type { Enums } from '@/integrations/supabase/types';
+import type { DebugTrace } from './debug';
+import type { Diagnostic } from './diagnostics';
+
+export type ProgrammingLanguage = Enums<'programming_language'>;
+
+export type ExecutionStatus =
+  | 'success'
+  | 'compile_error'
+  | 'runtime_error'
+  | 'timeout'
+  | 'memory_limit_exceeded'
+  | 'output_limit_exceeded'
+  | 'internal_error';
+
+export interface ExecutionResult {
+  status: ExecutionStatus;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  durationMs: number;
+  /** Peak memory, when the runner can measure it. */
+  memoryKb?: number;
+  /** Where a failed run's errors point in the code, read from stderr. */
+  diagnostics?: Diagnostic[];
+}
+
+export interface ExecutionOptions {
+  /** Wall-clock limit for the learner's code, not counting runtime start-up. */
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  /** Input available before the program starts; interactive runners ask onInput once it runs out. */
+  stdin?: string;
+  onStdout?: (chunk: string) => void;
+  onStderr?: (chunk: string) => void;
+  /**
+   * Called when the program waits for a line of input; resolve with null for end
+   * of input. The time limit is paused while waiting.
+   */
+  onInput?: () => Promise<string | null>;
+}
+
+export interface CodeRunner {
+  run: (code: string, options?: ExecutionOptions) => Promise<ExecutionResult>;
+  /** Warms up the runner ahead of the first run, if it has anything to load. */
+  preload?: () => void;
+  /** Whether the runner can ask for input while the program runs, through onInput. */
+  interactive?: boolean;
+  /** Records every step of a run for the debugger, for runners that support it. */
+  debug?: (code: string, options?: ExecutionOptions) => Promise<DebugTrace>;
+}
+
+export const DEFAULT_TIMEOUT_MS = 5000;
+export const DEFAULT_MEMORY_LIMIT_MB = 256;
+export const MAX_OUTPUT_BYTES = 64 * 1024;
+
+export const statusMessages: Record<ExecutionStatus, string> = {
+  success: 'Process exited successfully',
+  compile_error: 'Compilation failed',
+  runtime_error: 'Process exited with an error',
+  timeout: 'Time limit exceeded',
+  memory_limit_exceeded: 'Memory limit exceeded',
+  output_limit_exceeded: 'Output limit exceeded',
+  internal_error: 'The code runner failed unexpectedly',
+};
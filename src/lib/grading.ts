@@ -0,0 +1,136 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { CodeRunner, ExecutionStatus } from '@/lib/execution';
+import { outputsMatch, type Comparator, type ComparatorOptions } from '@/lib/comparators';
+
+export type TestCase = Pick<
+  Tables<'lesson_test_cases'>,
+  'id' | 'name' | 'stdin' | 'expected_output' | 'is_hidden' | 'weight'
+>;
+
+export interface TestCaseResult {
+  id: string;
+  name: string;
+  hidden: boolean;
+  passed: boolean;
+  status: ExecutionStatus;
+  // Only reported for visible cases, so hidden expectations never reach the browser.
+  stdin?: string;
+  stdout?: string;
+  expected?: string;
+}
+
+export interface GradeReport {
+  passed: boolean;
+  score: number;
+  maxScore: number;
+  cases: TestCaseResult[];
+}
+
+export interface EarnedBadge {
+  id: string;
+  name: string;
+  description: string;
+  icon: string | null;
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  attemptPenalty: number;
+  hintPenalty: number;
+  speedBonus: number;
+  minimalFixBonus: number;
+  total: number;
+}
+
+/** How much of the starter code a passing solution changed, next to the reference fix. */
+export interface FixReport {
+  linesChanged: number;
+  /** Null when the lesson has no reference solution. */
+  referenceLinesChanged: number | null;
+  referenceSolution: string | null;
+}
+
+/**
+ * The grade-submission function's answer: a full report, plus the points it
+ * awarded (zero for failures and for lessons that were already completed) and,
+ * for passing solutions, how they compare with the reference fix.
+ */
+export interface SubmissionVerdict extends GradeReport {
+  awardedPoints: number;
+  scoreBreakdown: ScoreBreakdown | null;
+  newBadges: EarnedBadge[];
+  fix: FixReport | null;
+}
+
+export interface ReviewSchedule {
+  intervalDays: number;
+  dueAt: string;
+}
+
+/**
+ * The submit-review function's answer: a full report, plus the lesson's new
+ * review schedule once the review has been recorded.
+ */
+export interface ReviewVerdict extends GradeReport {
+  review: ReviewSchedule | null;
+}
+
+export function describeScore({
+  base,
+  attemptPenalty,
+  hintPenalty,
+  speedBonus,
+  minimalFixBonus,
+  total,
+}: ScoreBreakdown) {
+  const parts = [`${base} base`];
+  if (attemptPenalty) parts.push(`−${attemptPenalty} attempts`);
+  if (hintPenalty) parts.push(`−${hintPenalty} hints`);
+  if (speedBonus) parts.push(`+${speedBonus} speed`);
+  if (minimalFixBonus) parts.push(`+${minimalFixBonus} minimal fix`);
+  return `${parts.join(' ')} = ${total} points`;
+}
+
+/**
+ * Runs the code once per test case and scores it by the weights of the passing cases.
+ * The grade-submission edge function does the same with hidden cases included.
+ */
+export async function gradeSubmission(
+  runner: CodeRunner,
+  code: string,
+  testCases: TestCase[],
+  comparator: Comparator = 'exact',
+  comparatorOptions: ComparatorOptions = {}
+): Promise<GradeReport> {
+  const cases: TestCaseResult[] = [];
+  let score = 0;
+  let maxScore = 0;
+
+  for (const [index, testCase] of testCases.entries()) {
+    const result = await runner.run(code, { stdin: testCase.stdin });
+    const passed =
+      result.status === 'success' &&
+      outputsMatch(result.stdout, testCase.expected_output, comparator, comparatorOptions);
+
+    maxScore += testCase.weight;
+    if (passed) score += testCase.weight;
+
+    cases.push({
+      id: testCase.id,
+      name: testCase.name || `Test ${index + 1}`,
+      hidden: testCase.is_hidden,
+      passed,
+      status: result.status,
+      stdin: testCase.stdin,
+      stdout: result.status === 'success' ? result.stdout : result.stdout + result.stderr,
+      expected: testCase.expected_output,
+    });
+  }
+
+  return {
+    passed: cases.length > 0 && cases.every((result) => result.passed),
+    score,
+    maxScore,
+    cases,
+  };
+}
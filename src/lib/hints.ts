@@ -0,0 +1,96 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type TargetedHintSource = 'output' | 'code';
+
+/**
+ * A hint shown for free when a failed check's output or the learner's code
+ * matches `pattern`, a regular expression matched line by line.
+ */
+export interface TargetedHint {
+  match: TargetedHintSource;
+  pattern: string;
+  hint: string;
+}
+
+// Later hints give more away, so by default each one costs a bigger share of the points.
+// Same as the reveal_hint database function, which charges for hints.
+const HINT_TIER_SHARES = [0.1, 0.15, 0.2];
+
+/** What revealing hint `index` costs, when the lesson does not set a cost of its own. */
+export const defaultHintCost = (points: number, index: number) =>
+  Math.round(points * HINT_TIER_SHARES[Math.min(index, HINT_TIER_SHARES.length - 1)]);
+
+export const hintCost = (points: number, costs: number[], index: number) =>
+  costs[index] ?? defaultHintCost(points, index);
+
+/** The points the first `count` hints cost together. */
+export const hintsCost = (points: number, costs: number[], count: number) =>
+  Array.from({ length: count }, (_, index) => hintCost(points, costs, index)).reduce((sum, cost) => sum + cost, 0);
+
+export function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern, 'm');
+    return pattern.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/** Reads the lessons.targeted_hints column, skipping malformed entries. */
+export function parseTargetedHints(value: Json | null): TargetedHint[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) return [];
+    const { match, pattern, hint } = entry;
+    if ((match !== 'output' && match !== 'code') || typeof pattern !== 'string' || typeof hint !== 'string') return [];
+    return [{ match, pattern, hint }];
+  });
+}
+
+/**
+ * The hints the learner has revealed for a lesson so far, in order. With
+ * `review`, only those revealed in their current review of the lesson.
+ */
+export async function fetchRevealedHints(lessonId: string, { review = false } = {}): Promise<string[]> {
+  const { data, error } = review
+    ? await supabase.rpc('revealed_review_hints', { _lesson_id: lessonId })
+    : await supabase.rpc('revealed_hints', { _lesson_id: lessonId });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Reveals hint `index` and returns its text. The database only hands out a hint
+ * once the one before it has been revealed, and records what it cost. Hints
+ * revealed in a `review` are free, and unlock afresh for every review.
+ */
+export async function revealHint(lessonId: string, index: number, { review = false } = {}): Promise<string> {
+  const args = { _lesson_id: lessonId, _hint_index: index };
+  const { data, error } = review
+    ? await supabase.rpc('reveal_review_hint', args)
+    : await supabase.rpc('reveal_hint', args);
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Returns the lesson's targeted hints whose pattern matches the code or any of
+ * the outputs. Learners can't read the patterns, so the database matches them.
+ */
+export async function fetchTargetedHints(
+  lessonId: string,
+  { code, outputs }: { code: string; outputs: string[] }
+): Promise<string[]> {
+  const { data, error } = await supabase.rpc('match_targeted_hints', {
+    _lesson_id: lessonId,
+    _code: code,
+    _outputs: outputs,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type PathLesson = Pick<Tables<'lessons'>, 'id' | 'slug' | 'title' | 'language' | 'difficulty'>;
+
+export interface LearningPath {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  language: Tables<'learning_paths'>['language'];
+  /** Published lessons in path order. */
+  lessons: PathLesson[];
+}
+
+/** Maps a lesson id to the published lessons that must be completed first. */
+export type PrerequisiteMap = Map<string, PathLesson[]>;
+
+export async function fetchLearningPaths(): Promise<LearningPath[]> {
+  const { data, error } = await supabase
+    .from('learning_paths')
+    .select(
+      'id, slug, title, description, language, learning_path_lessons(position, lessons(id, slug, title, language, difficulty, status))'
+    )
+    .order('order_index');
+
+  if (error) throw error;
+
+  return data.map(({ learning_path_lessons, ...path }) => ({
+    ...path,
+    lessons: learning_path_lessons
+      // Drafts come back as null for learners and are skipped for instructors
+      .filter((entry) => entry.lessons?.status === 'published')
+      .sort((a, b) => a.position - b.position)
+      .map(({ lessons: { id, slug, title, language, difficulty } }) => ({ id, slug, title, language, difficulty })),
+  }));
+}
+
+export async function fetchPrerequisites(): Promise<PrerequisiteMap> {
+  const { data, error } = await supabase
+    .from('lesson_prerequisites')
+    .select(
+      'lesson_id, prerequisite:lessons!lesson_prerequisites_prerequisite_id_fkey(id, slug, title, language, difficulty, status)'
+    );
+
+  if (error) throw error;
+
+  const prerequisites: PrerequisiteMap = new Map();
+  for (const { lesson_id, prerequisite } of data) {
+    if (prerequisite?.status !== 'published') continue;
+
+    const { id, slug, title, language, difficulty } = prerequisite;
+    prerequisites.set(lesson_id, [...(prerequisites.get(lesson_id) ?? []), { id, slug, title, language, difficulty }]);
+  }
+  return prerequisites;
+}
+
+export async function fetchCompletedLessonIds(userId: string): Promise<Set<string>> {
+  const { data, error } = await supabase.from('user_progress').select('lesson_id').eq('user_id', userId);
+
+  if (error) throw error;
+  return new Set(data.map((progress) => progress.lesson_id));
+}
+
+/** The prerequisites of a lesson that still have to be completed; empty when it is unlocked. */
+export const missingPrerequisites = (
+  lessonId: string,
+  prerequisites: PrerequisiteMap,
+  completedIds: Set<string>
+): PathLesson[] => (prerequisites.get(lessonId) ?? []).filter((lesson) => !completedIds.has(lesson.id));
+
+/**
+ * The lesson to continue a path with: the first unlocked lesson not yet completed,
+ * else the first locked one, or null once the whole path is done.
+ */
+export function nextPathLesson(
+  path: LearningPath,
+  prerequisites: PrerequisiteMap,
+  completedIds: Set<string>
+): PathLesson | null {
+  const remaining = path.lessons.filter((lesson) => !completedIds.has(lesson.id));
+  return (
+    remaining.find((lesson) => missingPrerequisites(lesson.id, prerequisites, completedIds).length === 0) ??
+    remaining[0] ??
+    null
+  );
+}
@@ -0,0 +1,274 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Json } from '@/integrations/supabase/types';
+import type { Comparator, ComparatorOptions } from '@/lib/comparators';
+import type { GradeReport } from '@/lib/grading';
+import { hintCost, isValidPattern, parseTargetedHints, type TargetedHint } from '@/lib/hints';
+import type { ProgrammingLanguage } from '@/lib/execution';
+
+export type LessonStatus = Enums<'lesson_status'>;
+
+export interface EditableTestCase {
+  id: string;
+  name: string;
+  stdin: string;
+  expected_output: string;
+  is_hidden: boolean;
+  weight: number;
+}
+
+/** Everything an instructor edits for a lesson, including what learners never see. */
+export interface EditableLesson {
+  id: string | null;
+  slug: string;
+  title: string;
+  description: string;
+  language: ProgrammingLanguage;
+  difficulty: Enums<'difficulty_level'>;
+  points: number;
+  starter_code: string;
+  solution: string;
+  expected_output: string;
+  comparator: Comparator;
+  comparator_options: ComparatorOptions;
+  hints: string[];
+  /** Points each hint costs, by position in `hints`. */
+  hint_costs: number[];
+  targeted_hints: TargetedHint[];
+  test_cases: EditableTestCase[];
+  /** Concept tags, which also drive per-concept mastery. */
+  tag_ids: string[];
+  status: LessonStatus;
+}
+
+export interface PublishResult {
+  status: LessonStatus;
+  problems: string[];
+  solution: GradeReport | null;
+  starter: GradeReport | null;
+}
+
+export const newTestCase = (): EditableTestCase => ({
+  id: crypto.randomUUID(),
+  name: '',
+  stdin: '',
+  expected_output: '',
+  is_hidden: false,
+  weight: 1,
+});
+
+export const newLesson = (): EditableLesson => ({
+  id: null,
+  slug: '',
+  title: '',
+  description: '',
+  language: 'python',
+  difficulty: 'easy',
+  points: 10,
+  starter_code: '',
+  solution: '',
+  expected_output: '',
+  comparator: 'exact',
+  comparator_options: {},
+  hints: [],
+  hint_costs: [],
+  targeted_hints: [],
+  test_cases: [newTestCase()],
+  tag_ids: [],
+  status: 'draft',
+});
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** Turns a title into a slug such as "list-index-bug". */
+export const slugify = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/** Returns the problems that stop the lesson from being saved at all. */
+export function validateLesson(lesson: EditableLesson): string[] {
+  const problems: string[] = [];
+
+  if (!lesson.title.trim()) problems.push('Title is required.');
+  if (!SLUG_PATTERN.test(lesson.slug)) {
+    problems.push('Slug may only contain lowercase letters, digits and single dashes.');
+  }
+  if (!lesson.description.trim()) problems.push('Description is required.');
+  if (!lesson.starter_code.trim()) problems.push('Starter code is required.');
+  if (!lesson.expected_output.trim()) problems.push('Expected output is required.');
+  if (lesson.points < 0) problems.push('Points cannot be negative.');
+  lesson.hint_costs.forEach((cost, index) => {
+    if (cost < 0) problems.push(`Hint ${index + 1} cannot cost negative points.`);
+  });
+  lesson.targeted_hints.forEach((targetedHint, index) => {
+    if (!isValidPattern(targetedHint.pattern)) {
+      problems.push(`Targeted hint ${index + 1} needs a valid regular expression.`);
+    }
+    if (!targetedHint.hint.trim()) problems.push(`Targeted hint ${index + 1} needs a hint.`);
+  });
+  lesson.test_cases.forEach((testCase, index) => {
+    if (!testCase.expected_output.trim()) problems.push(`Test case ${index + 1} needs an expected output.`);
+    if (testCase.weight < 1) problems.push(`Test case ${index + 1} needs a weight of at least 1.`);
+  });
+
+  return problems;
+}
+
+export async function loadLesson(lessonId: string): Promise<EditableLesson> {
+  // Hint text is kept from learners, so instructors read it through lesson_hints
+  const [lessonResult, hintsResult, solutionResult, testCasesResult, tagsResult] = await Promise.all([
+    supabase
+      .from('lessons')
+      .select(
+        'id, slug, title, description, language, difficulty, points, starter_code, expected_output, comparator, comparator_options, hint_costs, status'
+      )
+      .eq('id', lessonId)
+      .single(),
+    supabase.rpc('lesson_hints', { _lesson_id: lessonId }).single(),
+    supabase.from('lesson_solutions').select('code').eq('lesson_id', lessonId).maybeSingle(),
+    supabase
+      .from('lesson_test_cases')
+      .select('id, name, stdin, expected_output, is_hidden, weight')
+      .eq('lesson_id', lessonId)
+      .order('order_index'),
+    supabase.from('lesson_tags').select('tag_id').eq('lesson_id', lessonId),
+  ]);
+
+  if (lessonResult.error) throw lessonResult.error;
+  if (hintsResult.error) throw hintsResult.error;
+  if (solutionResult.error) throw solutionResult.error;
+  if (testCasesResult.error) throw testCasesResult.error;
+  if (tagsResult.error) throw tagsResult.error;
+
+  const lesson = lessonResult.data;
+  return {
+    id: lesson.id,
+    slug: lesson.slug,
+    title: lesson.title,
+    description: lesson.description,
+    language: lesson.language,
+    difficulty: lesson.difficulty,
+    points: lesson.points ?? 0,
+    starter_code: lesson.starter_code,
+    solution: solutionResult.data?.code ?? '',
+    expected_output: lesson.expected_output,
+    comparator: lesson.comparator,
+    comparator_options: (lesson.comparator_options ?? {}) as ComparatorOptions,
+    hints: hintsResult.data.hints,
+    hint_costs: lesson.hint_costs,
+    targeted_hints: parseTargetedHints(hintsResult.data.targeted_hints),
+    test_cases: (testCasesResult.data ?? []).map((testCase) => ({ ...testCase, name: testCase.name ?? '' })),
+    tag_ids: (tagsResult.data ?? []).map((lessonTag) => lessonTag.tag_id),
+    status: lesson.status,
+  };
+}
+
+const nextOrderIndex = async (language: ProgrammingLanguage) => {
+  const { data, error } = await supabase
+    .from('lessons')
+    .select('order_index')
+    .eq('language', language)
+    .order('order_index', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.order_index ?? 0) + 1;
+};
+
+/**
+ * Saves the lesson, its reference solution, test cases and tags, returning the
+ * lesson id. Only publish-lesson may publish a lesson, and the database moves a
+ * published lesson back to draft when the code, comparison, solution or test
+ * cases change, so such edits have to be published again.
+ */
+export async function saveLesson(lesson: EditableLesson): Promise<string> {
+  // Blank hints are dropped together with their costs
+  const hints = lesson.hints
+    .map((hint, index) => ({ text: hint.trim(), cost: hintCost(lesson.points, lesson.hint_costs, index) }))
+    .filter((hint) => hint.text);
+
+  const fields = {
+    slug: lesson.slug,
+    title: lesson.title.trim(),
+    description: lesson.description.trim(),
+    language: lesson.language,
+    difficulty: lesson.difficulty,
+    points: lesson.points,
+    starter_code: lesson.starter_code,
+    expected_output: lesson.expected_output,
+    comparator: lesson.comparator,
+    comparator_options: lesson.comparator_options as Json,
+    hints: hints.map((hint) => hint.text),
+    hint_costs: hints.map((hint) => hint.cost),
+    targeted_hints: lesson.targeted_hints.map((targetedHint) => ({
+      ...targetedHint,
+      hint: targetedHint.hint.trim(),
+    })) as Json,
+  };
+
+  let lessonId = lesson.id;
+  if (lessonId) {
+    const { error } = await supabase.from('lessons').update(fields).eq('id', lessonId);
+    if (error) throw error;
+  } else {
+    const { data, error } = await supabase
+      .from('lessons')
+      .insert({ ...fields, order_index: await nextOrderIndex(lesson.language) })
+      .select('id')
+      .single();
+    if (error) throw error;
+    lessonId = data.id;
+  }
+
+  const { error: solutionError } = await supabase
+    .from('lesson_solutions')
+    .upsert({ lesson_id: lessonId, code: lesson.solution }, { onConflict: 'lesson_id' });
+  if (solutionError) throw solutionError;
+
+  const keptIds = lesson.test_cases.map((testCase) => testCase.id);
+  let removeQuery = supabase.from('lesson_test_cases').delete().eq('lesson_id', lessonId);
+  if (keptIds.length > 0) {
+    removeQuery = removeQuery.not('id', 'in', `(${keptIds.join(',')})`);
+  }
+  const { error: removeError } = await removeQuery;
+  if (removeError) throw removeError;
+
+  if (lesson.test_cases.length > 0) {
+    const { error: testCasesError } = await supabase.from('lesson_test_cases').upsert(
+      lesson.test_cases.map((testCase, index) => ({
+        ...testCase,
+        name: testCase.name.trim() || null,
+        lesson_id: lessonId,
+        order_index: index,
+      }))
+    );
+    if (testCasesError) throw testCasesError;
+  }
+
+  let removeTagsQuery = supabase.from('lesson_tags').delete().eq('lesson_id', lessonId);
+  if (lesson.tag_ids.length > 0) {
+    removeTagsQuery = removeTagsQuery.not('tag_id', 'in', `(${lesson.tag_ids.join(',')})`);
+  }
+  const { error: removeTagsError } = await removeTagsQuery;
+  if (removeTagsError) throw removeTagsError;
+
+  if (lesson.tag_ids.length > 0) {
+    const { error: tagsError } = await supabase
+      .from('lesson_tags')
+      .upsert(lesson.tag_ids.map((tagId) => ({ lesson_id: lessonId, tag_id: tagId })), { ignoreDuplicates: true });
+    if (tagsError) throw tagsError;
+  }
+
+  return lessonId;
+}
+
+export async function setLessonStatus(lessonId: string, status: LessonStatus): Promise<PublishResult> {
+  const { data, error } = await supabase.functions.invoke<PublishResult>('publish-lesson', {
+    body: { lessonId, status },
+  });
+
+  if (error) throw error;
+  return data!;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LESSON_PACK_FORMAT, LessonPackError, parseLessonPack } from './lesson-pack';
+
+// Parsing never reaches the database
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const lesson = {
+  slug: 'off-by-one',
+  title: 'Off by one',
+  language: 'python',
+  difficulty: 'easy',
+  description: 'Fix the loop.',
+  starter_code: 'for i in range(1, 3): print(i)',
+  expected_output: '0\n1\n2',
+};
+
+const pack = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: LESSON_PACK_FORMAT, version: 1, name: 'Loops', lessons: [lesson], ...overrides });
+
+const issues = (text: string) => {
+  try {
+    parseLessonPack(text);
+  } catch (error) {
+    if (error instanceof LessonPackError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe('parseLessonPack', () => {
+  it('fills in defaults', () => {
+    const [parsed] = parseLessonPack(pack({ lessons: [{ ...lesson, test_cases: [{ expected_output: '0' }] }] })).lessons;
+
+    expect(parsed).toMatchObject({
+      points: 10,
+      solution: '',
+      comparator: 'exact',
+      comparator_options: {},
+      hints: [],
+      test_cases: [{ stdin: '', expected_output: '0', hidden: false, weight: 1 }],
+    });
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(issues('{')).toEqual([expect.stringMatching(/^Not valid JSON: /)]);
+  });
+
+  it('rejects other versions before checking anything else', () => {
+    expect(issues(pack({ version: 2, lessons: 'none' }))).toEqual([
+      'Unsupported pack version 2; this app reads version 1',
+    ]);
+  });
+
+  it('lists every problem with its path', () => {
+    const problems = issues(pack({ lessons: [{ ...lesson, slug: 'Off By One', language: 'cobol', extra: true }] }));
+
+    expect(problems).toHaveLength(3);
+    expect(problems).toContainEqual('lessons.0.slug: must be lowercase words separated by single dashes');
+    expect(problems.some((problem) => problem.startsWith('lessons.0.language: '))).toBe(true);
+    expect(problems.some((problem) => problem.startsWith('lessons.0: '))).toBe(true);
+  });
+
+  it('rejects a slug used twice in one language', () => {
+    expect(issues(pack({ lessons: [lesson, { ...lesson, title: 'Again' }] }))).toEqual([
+      'lessons.1.slug: duplicate slug "off-by-one" for python',
+    ]);
+    expect(issues(pack({ lessons: [lesson, { ...lesson, language: 'javascript' }] }))).toEqual([]);
+  });
+});
@@ -0,0 +1,283 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Constants } from '@/integrations/supabase/types';
+import {
+  loadLesson,
+  newTestCase,
+  saveLesson,
+  setLessonStatus,
+  validateLesson,
+  type EditableLesson,
+} from '@/lib/lesson-authoring';
+
+export const LESSON_PACK_FORMAT = 'debugmaster.lesson-pack';
+export const LESSON_PACK_VERSION = 1;
+export const LESSON_PACK_SCHEMA_URL = '/schemas/lesson-pack.v1.json';
+
+// Keep in sync with public/schemas/lesson-pack.v1.json
+const packTestCaseSchema = z
+  .object({
+    name: z.string().optional(),
+    stdin: z.string().default(''),
+    expected_output: z.string(),
+    hidden: z.boolean().default(false),
+    weight: z.number().int().min(1).default(1),
+  })
+  .strict();
+
+const packTargetedHintSchema = z
+  .object({
+    match: z.enum(['output', 'code']),
+    pattern: z.string().min(1),
+    hint: z.string().min(1),
+  })
+  .strict();
+
+const packLessonSchema = z
+  .object({
+    slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'must be lowercase words separated by single dashes'),
+    title: z.string().min(1),
+    language: z.enum(Constants.public.Enums.programming_language),
+    difficulty: z.enum(Constants.public.Enums.difficulty_level),
+    description: z.string().min(1),
+    points: z.number().int().min(0).default(10),
+    starter_code: z.string().min(1),
+    solution: z.string().default(''),
+    expected_output: z.string().min(1),
+    comparator: z.enum(Constants.public.Enums.output_comparator).default('exact'),
+    comparator_options: z
+      .object({ tolerance: z.number().min(0).optional(), flags: z.string().optional() })
+      .strict()
+      .default({}),
+    hints: z.array(z.string()).default([]),
+    hint_costs: z.array(z.number().int().min(0)).default([]),
+    targeted_hints: z.array(packTargetedHintSchema).default([]),
+    test_cases: z.array(packTestCaseSchema).default([]),
+  })
+  .strict();
+
+const lessonPackSchema = z
+  .object({
+    $schema: z.string().optional(),
+    format: z.literal(LESSON_PACK_FORMAT),
+    version: z.literal(LESSON_PACK_VERSION),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    exported_at: z.string().optional(),
+    lessons: z.array(packLessonSchema),
+  })
+  .strict()
+  .superRefine((pack, ctx) => {
+    const seen = new Set<string>();
+    pack.lessons.forEach((lesson, index) => {
+      const key = `${lesson.language}/${lesson.slug}`;
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['lessons', index, 'slug'],
+          message: `duplicate slug "${lesson.slug}" for ${lesson.language}`,
+        });
+      }
+      seen.add(key);
+    });
+  });
+
+export type LessonPack = z.infer<typeof lessonPackSchema>;
+export type PackLesson = z.infer<typeof packLessonSchema>;
+
+export class LessonPackError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid lesson pack: ${issues.join('; ')}`);
+  }
+}
+
+/** Parses and validates a lesson pack, throwing a LessonPackError listing every problem. */
+export function parseLessonPack(text: string): LessonPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new LessonPackError([`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  if (typeof data === 'object' && data !== null && 'version' in data && data.version !== LESSON_PACK_VERSION) {
+    throw new LessonPackError([
+      `Unsupported pack version ${String(data.version)}; this app reads version ${LESSON_PACK_VERSION}`,
+    ]);
+  }
+
+  const result = lessonPackSchema.safeParse(data);
+  if (!result.success) {
+    throw new LessonPackError(
+      result.error.issues.map((issue) => `${issue.path.join('.') || 'pack'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+const toPackLesson = (lesson: EditableLesson): PackLesson => ({
+  slug: lesson.slug,
+  title: lesson.title,
+  language: lesson.language,
+  difficulty: lesson.difficulty,
+  description: lesson.description,
+  points: lesson.points,
+  starter_code: lesson.starter_code,
+  solution: lesson.solution,
+  expected_output: lesson.expected_output,
+  comparator: lesson.comparator,
+  comparator_options: lesson.comparator_options,
+  hints: lesson.hints,
+  hint_costs: lesson.hint_costs,
+  targeted_hints: lesson.targeted_hints,
+  test_cases: lesson.test_cases.map((testCase) => ({
+    ...(testCase.name ? { name: testCase.name } : {}),
+    stdin: testCase.stdin,
+    expected_output: testCase.expected_output,
+    hidden: testCase.is_hidden,
+    weight: testCase.weight,
+  })),
+});
+
+const fromPackLesson = (lesson: PackLesson, existing: EditableLesson | null): EditableLesson => ({
+  id: existing?.id ?? null,
+  status: existing?.status ?? 'draft',
+  // Packs do not carry tags, so imports keep whatever the lesson already has
+  tag_ids: existing?.tag_ids ?? [],
+  slug: lesson.slug,
+  title: lesson.title,
+  language: lesson.language,
+  difficulty: lesson.difficulty,
+  description: lesson.description,
+  points: lesson.points,
+  starter_code: lesson.starter_code,
+  solution: lesson.solution,
+  expected_output: lesson.expected_output,
+  comparator: lesson.comparator,
+  comparator_options: lesson.comparator_options,
+  hints: lesson.hints,
+  hint_costs: lesson.hint_costs,
+  targeted_hints: lesson.targeted_hints.map(({ match, pattern, hint }) => ({ match, pattern, hint })),
+  test_cases: lesson.test_cases.map((testCase) => ({
+    ...newTestCase(),
+    name: testCase.name ?? '',
+    stdin: testCase.stdin,
+    expected_output: testCase.expected_output,
+    is_hidden: testCase.hidden,
+    weight: testCase.weight,
+  })),
+});
+
+export async function exportLessonPack(lessonIds: string[], name: string): Promise<LessonPack> {
+  const lessons: PackLesson[] = [];
+  for (const lessonId of lessonIds) {
+    lessons.push(toPackLesson(await loadLesson(lessonId)));
+  }
+
+  return {
+    $schema: LESSON_PACK_SCHEMA_URL,
+    format: LESSON_PACK_FORMAT,
+    version: LESSON_PACK_VERSION,
+    name,
+    exported_at: new Date().toISOString(),
+    lessons,
+  };
+}
+
+export type ImportAction = 'create' | 'unchanged' | 'conflict';
+
+export interface ImportPlanItem {
+  lesson: EditableLesson;
+  action: ImportAction;
+  /** Fields that differ from the existing lesson with the same slug. */
+  changedFields: string[];
+  /** Problems that stop this lesson from being imported. */
+  problems: string[];
+}
+
+const comparedFields = [
+  'title',
+  'difficulty',
+  'description',
+  'points',
+  'starter_code',
+  'solution',
+  'expected_output',
+  'comparator',
+  'comparator_options',
+  'hints',
+  'hint_costs',
+  'targeted_hints',
+  'test_cases',
+] as const;
+
+/** Matches pack lessons to existing ones by language and slug and works out what importing would do. */
+export async function planLessonPackImport(pack: LessonPack): Promise<ImportPlanItem[]> {
+  const { data: existingLessons, error } = await supabase.from('lessons').select('id, language, slug');
+  if (error) throw error;
+
+  const existingIds = new Map(existingLessons.map((lesson) => [`${lesson.language}/${lesson.slug}`, lesson.id]));
+
+  const plan: ImportPlanItem[] = [];
+  for (const packLesson of pack.lessons) {
+    const existingId = existingIds.get(`${packLesson.language}/${packLesson.slug}`);
+    const existing = existingId ? await loadLesson(existingId) : null;
+    const lesson = fromPackLesson(packLesson, existing);
+
+    const incoming = toPackLesson(lesson);
+    const current = existing ? toPackLesson(existing) : null;
+    const changedFields = current
+      ? comparedFields.filter((field) => JSON.stringify(incoming[field]) !== JSON.stringify(current[field]))
+      : [];
+
+    plan.push({
+      lesson,
+      action: !existing ? 'create' : changedFields.length > 0 ? 'conflict' : 'unchanged',
+      changedFields,
+      problems: validateLesson(lesson),
+    });
+  }
+
+  return plan;
+}
+
+export interface ImportResult {
+  slug: string;
+  language: EditableLesson['language'];
+  error: string | null;
+}
+
+/**
+ * Imports the planned lessons. New lessons arrive as drafts; existing ones are
+ * only overwritten when listed in `overwrite`, and published ones are published
+ * again through publish-lesson, staying drafts if they fail its checks.
+ */
+export async function importLessonPack(plan: ImportPlanItem[], overwrite: Set<string>): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+
+  for (const item of plan) {
+    const { lesson } = item;
+    const key = `${lesson.language}/${lesson.slug}`;
+    if (item.problems.length > 0 || item.action === 'unchanged') continue;
+    if (item.action === 'conflict' && !overwrite.has(key)) continue;
+
+    try {
+      const lessonId = await saveLesson(lesson);
+      const published = lesson.status === 'published' ? await setLessonStatus(lessonId, 'published') : null;
+      results.push({
+        slug: lesson.slug,
+        language: lesson.language,
+        error: published?.problems.length ? `Saved as a draft: ${published.problems.join(' ')}` : null,
+      });
+    } catch (error) {
+      console.error(`Error importing lesson ${key}:`, error);
+      results.push({
+        slug: lesson.slug,
+        language: lesson.language,
+        error: error instanceof Error ? error.message : 'Import failed',
+      });
+    }
+  }
+
+  return results;
+}
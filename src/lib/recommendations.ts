@@ -0,0 +1,25 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type Recommendation = Database['public']['Functions']['recommend_lessons']['Returns'][number];
+
+interface RecommendationOptions {
+  /** The lesson just solved; it is never recommended and sets the preferred language. */
+  currentLessonId?: string;
+  limit?: number;
+}
+
+/** Asks the recommend_lessons RPC for the best next lessons, best first. */
+export async function fetchRecommendations(
+  userId: string,
+  { currentLessonId, limit = 3 }: RecommendationOptions = {}
+): Promise<Recommendation[]> {
+  const { data, error } = await supabase.rpc('recommend_lessons', {
+    _user_id: userId,
+    _current_lesson_id: currentLessonId,
+    _limit: limit,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { renameIdentifiers, renameInText, reverseRenames, scrambleStarterCode } from './scramble';
+
+const renames = new Map([
+  ['a', 'left'],
+  ['sum', 'tally'],
+]);
+
+describe('renameIdentifiers', () => {
+  it('renames whole names, but not properties', () => {
+    expect(renameIdentifiers('const sum = a + a2 + obj.a;', 'javascript', renames)).toBe(
+      'const tally = left + a2 + obj.a;'
+    );
+  });
+
+  it('leaves strings and comments alone', () => {
+    expect(renameIdentifiers('print("a sum", a)  # a is the sum', 'python', renames)).toBe(
+      'print("a sum", left)  # a is the sum'
+    );
+  });
+});
+
+describe('renameInText', () => {
+  it('renames only inside backticks when the text has them', () => {
+    expect(renameInText('Is `a` reset before a loop?', renames)).toBe('Is `left` reset before a loop?');
+  });
+
+  it('renames whole words in plain text', () => {
+    expect(renameInText('Check what sum starts at.', renames)).toBe('Check what tally starts at.');
+  });
+});
+
+describe('reverseRenames', () => {
+  it('undoes the renames', () => {
+    const code = 'let sum = a * 2;';
+
+    expect(renameIdentifiers(renameIdentifiers(code, 'javascript', renames), 'javascript', reverseRenames(renames))).toBe(
+      code
+    );
+  });
+});
+
+describe('scrambleStarterCode', () => {
+  const code = [
+    'function average(nums) {',
+    '  let sum = 0;',
+    '  for (const n of nums) sum += n;',
+    '  console.log("sum:", sum);',
+    '  return { mean: sum / nums.length };',
+    '}',
+    'const mean = average([1, 2, 3]).mean;',
+    'return mean;',
+  ].join('\n');
+
+  it('renames declared names so the program still runs the same', () => {
+    const scrambled = scrambleStarterCode(code, 'javascript', 'seed');
+
+    expect([...scrambled.renames.keys()].sort()).toEqual(['average', 'n', 'nums']);
+    expect(renameIdentifiers(scrambled.code, 'javascript', reverseRenames(scrambled.renames))).toBe(code);
+    expect(new Function('console', scrambled.code)({ log: () => {} })).toBe(2);
+  });
+
+  it('keeps names that appear in strings or as properties', () => {
+    const { code: scrambled } = scrambleStarterCode(code, 'javascript', 'seed');
+
+    expect(scrambled).toContain('let sum = 0;');
+    expect(scrambled).toContain('const mean =');
+  });
+
+  it('picks the same names for the same seed', () => {
+    expect(scrambleStarterCode(code, 'javascript', 'seed')).toEqual(scrambleStarterCode(code, 'javascript', 'seed'));
+  });
+
+  it('only picks replacements the code does not use', () => {
+    const { renames: picked } = scrambleStarterCode(code, 'javascript', 'other seed');
+
+    for (const replacement of picked.values()) {
+      expect(code).not.toMatch(new RegExp(`\\b${replacement}\\b`));
+    }
+    expect(new Set(picked.values()).size).toBe(picked.size);
+  });
+});
@@ -0,0 +1,158 @@
+import type { ProgrammingLanguage } from '@/lib/execution';
+
+// Strings, characters and comments are copied through untouched.
+const DOUBLE_QUOTED = String.raw`"(?:\\.|[^"\\\n])*"`;
+const SINGLE_QUOTED = String.raw`'(?:\\.|[^'\\\n])*'`;
+// Rust lifetimes and generics also use ', so only a single character counts
+const CHARACTER = String.raw`'(?:\\.|[^'\\])'`;
+const BACKTICK = String.raw`${'`'}(?:\\.|[^${'`'}\\])*${'`'}`;
+const LINE_COMMENT = String.raw`\/\/[^\n]*`;
+const BLOCK_COMMENT = String.raw`\/\*[\s\S]*?\*\/`;
+
+const protectedPatterns: Record<ProgrammingLanguage, string[]> = {
+  python: [`"""[\\s\\S]*?"""`, `'''[\\s\\S]*?'''`, DOUBLE_QUOTED, SINGLE_QUOTED, '#[^\\n]*'],
+  javascript: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICK, LINE_COMMENT, BLOCK_COMMENT],
+  java: [DOUBLE_QUOTED, CHARACTER, LINE_COMMENT, BLOCK_COMMENT],
+  cpp: [DOUBLE_QUOTED, CHARACTER, LINE_COMMENT, BLOCK_COMMENT],
+  go: [DOUBLE_QUOTED, BACKTICK, CHARACTER, LINE_COMMENT, BLOCK_COMMENT],
+  rust: [DOUBLE_QUOTED, CHARACTER, LINE_COMMENT, BLOCK_COMMENT],
+};
+
+// Each pattern captures a declared name, or a comma-separated list of them
+const declarationPatterns: Record<ProgrammingLanguage, RegExp[]> = {
+  python: [/\bdef\s+(\w+)/g, /\bdef\s+\w+\(([^)]*)\)/g, /^[ \t]*([\w \t,]+?)[ \t]*=(?!=)/gm, /\bfor\s+([\w \t,]+?)\s+in\b/g],
+  javascript: [
+    /\b(?:let|const|var)\s+([\w$]+)/g,
+    /\bfunction\s+([\w$]+)/g,
+    /\bfunction\s*[\w$]*\s*\(([^)]*)\)/g,
+  ],
+  java: [/\b(?:int|long|double|float|boolean|char|String|var)(?:\[\])*\s+(\w+)/g],
+  cpp: [/\b(?:int|long|double|float|bool|char|auto|size_t|string|vector<[^>]*>)(?:\s*[*&]\s*|\s+)(\w+)/g],
+  go: [/([\w \t,]+?)[ \t]*:=/g, /\bvar\s+(\w+)/g, /\bfunc\s+(\w+)/g],
+  rust: [/\blet\s+(?:mut\s+)?(\w+)/g, /\bfn\s+(\w+)/g],
+};
+
+// Entry points, and keywords a loose declaration pattern could pick up
+const RESERVED = new Set([
+  'main', 'self', 'this', 'super', 'args', 'argv', 'argc', 'init', 'new', '_',
+  'if', 'else', 'elif', 'for', 'while', 'in', 'of', 'return', 'let', 'const', 'var', 'mut', 'def', 'fn', 'func',
+  'global', 'nonlocal', 'range', 'go', 'defer', 'select', 'case', 'switch', 'true', 'false', 'null', 'nil',
+]);
+
+const REPLACEMENTS = [
+  'value', 'item', 'total', 'count', 'result', 'current', 'amount', 'entry', 'score', 'limit',
+  'index', 'size', 'target', 'cursor', 'record', 'sample', 'payload', 'tally', 'acc', 'slot',
+  'first', 'second', 'left', 'right', 'base', 'step', 'part', 'piece', 'unit', 'node',
+];
+
+// Small seeded PRNG, so a review always shows the same variant until it is rescheduled
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const hashString = (value: string) =>
+  [...value].reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) | 0, 0);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Splits code into alternating code and protected (string or comment) segments. */
+function splitSegments(code: string, language: ProgrammingLanguage) {
+  const pattern = new RegExp(protectedPatterns[language].join('|'), 'g');
+  const segments: { text: string; protected: boolean }[] = [];
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    segments.push({ text: code.slice(last, match.index), protected: false });
+    segments.push({ text: match[0], protected: true });
+    last = match.index! + match[0].length;
+  }
+  segments.push({ text: code.slice(last), protected: false });
+  return segments;
+}
+
+export interface ScrambledCode {
+  code: string;
+  /** Each renamed name, mapped to the name that replaced it. */
+  renames: Map<string, string>;
+}
+
+const namePattern = (renames: Map<string, string>) =>
+  new RegExp(`(?<![\\w$.])(${[...renames.keys()].map(escapeRegExp).join('|')})(?![\\w$])`, 'g');
+
+/** Renames whole names in code, leaving strings and comments as they are. */
+export function renameIdentifiers(code: string, language: ProgrammingLanguage, renames: Map<string, string>): string {
+  if (renames.size === 0) return code;
+
+  const names = namePattern(renames);
+  return splitSegments(code, language)
+    .map((segment) => (segment.protected ? segment.text : segment.text.replace(names, (name) => renames.get(name)!)))
+    .join('');
+}
+
+/**
+ * Renames names mentioned in prose, such as a hint about scrambled code. When
+ * the text marks code with backticks, only names inside those are renamed, so
+ * a variable called `a` doesn't rename the word "a".
+ */
+export function renameInText(text: string, renames: Map<string, string>): string {
+  if (renames.size === 0) return text;
+
+  const names = namePattern(renames);
+  const rename = (part: string) => part.replace(names, (name) => renames.get(name)!);
+  return text.includes('`') ? text.replace(/`[^`\n]*`/g, rename) : rename(text);
+}
+
+/** The renames that undo `renames`. */
+export const reverseRenames = (renames: Map<string, string>) =>
+  new Map([...renames].map(([name, replacement]) => [replacement, name]));
+
+/**
+ * Renames the variables and functions a program declares, so a lesson seen
+ * before does not look identical on review. Only names that are safe to rename
+ * change: never ones that also appear in strings or comments, as properties or
+ * keyword arguments, or that start with a capital. Returns the code unchanged
+ * when nothing qualifies, along with what was renamed, so hints about the
+ * code can be renamed to match.
+ */
+export function scrambleStarterCode(code: string, language: ProgrammingLanguage, seed: string): ScrambledCode {
+  const segments = splitSegments(code, language);
+  const source = segments.filter((segment) => !segment.protected).map((segment) => segment.text).join('\n');
+  const protectedText = segments.filter((segment) => segment.protected).map((segment) => segment.text).join('\n');
+
+  const declared = new Set<string>();
+  for (const pattern of declarationPatterns[language]) {
+    for (const match of source.matchAll(pattern)) {
+      for (const part of match[1].split(',')) {
+        // The last word before any default value or type, as in "i" from "for i" or "b" from "b=1"
+        const name = (part.split(/[=:]/)[0].trim().split(/\s+/).pop() ?? '').replace(/^[*&]+/, '');
+        if (/^[a-z_$][\w$]*$/.test(name)) declared.add(name);
+      }
+    }
+  }
+
+  const isSafe = (name: string) => {
+    const word = escapeRegExp(name);
+    return (
+      !RESERVED.has(name) &&
+      !new RegExp(`(^|[^\\w$])${word}(?![\\w$])`).test(protectedText) &&
+      !new RegExp(`\\.\\s*${word}(?![\\w$])`).test(source) &&
+      !new RegExp(`(^|[^\\w$])${word}\\s*:(?![:=])`).test(source) &&
+      !(language === 'python' && new RegExp(`\\w\\([^()\\n]*(?<![\\w$])${word}\\s*=(?!=)`).test(source))
+    );
+  };
+
+  const random = mulberry32(hashString(seed));
+  const available = REPLACEMENTS.filter((name) => !new RegExp(`\\b${name}\\b`).test(code));
+  const renames = new Map<string, string>();
+  for (const name of [...declared].filter(isSafe).sort()) {
+    if (available.length === 0) break;
+    const [replacement] = available.splice(Math.floor(random() * available.length), 1);
+    renames.set(name, replacement);
+  }
+
+  return { code: renameIdentifiers(code, language, renames), renames };
+}
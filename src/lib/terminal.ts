@@ -0,0 +1,128 @@
+export type TerminalStream = 'stdout' | 'stderr' | 'stdin';
+
+/** A run of terminal output from one stream; stdin chunks echo what the learner typed. */
+export interface TerminalChunk {
+  stream: TerminalStream;
+  text: string;
+}
+
+export interface AnsiStyle {
+  color: string | null;
+  bold: boolean;
+  underline: boolean;
+}
+
+export interface AnsiSpan extends AnsiStyle {
+  text: string;
+}
+
+/** One line of a chunk: its raw text and how it is styled. */
+export interface AnsiLine {
+  text: string;
+  spans: AnsiSpan[];
+}
+
+export interface StyledChunk {
+  stream: TerminalStream;
+  lines: AnsiLine[];
+}
+
+/** Appends output, merging it into the last chunk when it came from the same stream. */
+export function appendChunk(chunks: TerminalChunk[], stream: TerminalStream, text: string): TerminalChunk[] {
+  const last = chunks[chunks.length - 1];
+  if (last?.stream === stream) {
+    return [...chunks.slice(0, -1), { stream, text: last.text + text }];
+  }
+  return [...chunks, { stream, text }];
+}
+
+/** Everything the terminal shows, as plain text, e.g. for matching targeted hints. */
+export const terminalText = (chunks: TerminalChunk[]) => stripAnsi(chunks.map((chunk) => chunk.text).join(''));
+
+// Foreground colors for SGR codes 30-37 and their bright variants 90-97
+const ANSI_COLORS = [
+  'text-zinc-500',
+  'text-red-500',
+  'text-green-500',
+  'text-yellow-500',
+  'text-blue-500',
+  'text-fuchsia-500',
+  'text-cyan-500',
+  'text-zinc-300',
+];
+const ANSI_BRIGHT_COLORS = [
+  'text-zinc-400',
+  'text-red-400',
+  'text-green-400',
+  'text-yellow-400',
+  'text-blue-400',
+  'text-fuchsia-400',
+  'text-cyan-400',
+  'text-white',
+];
+
+// Built from a string, because lint rejects control characters in regex literals
+const ESC = '\u001b';
+const SGR_SEQUENCE = new RegExp(`${ESC}\\[([\\d;]*)m`, 'g');
+const ANY_SEQUENCE = new RegExp(`${ESC}\\[[\\d;?]*[A-Za-z]`, 'g');
+
+export const stripAnsi = (text: string) => text.replace(ANY_SEQUENCE, '');
+
+const PLAIN_STYLE: AnsiStyle = { color: null, bold: false, underline: false };
+
+const applySgr = (style: AnsiStyle, params: string): AnsiStyle => {
+  let next = { ...style };
+  for (const code of (params || '0').split(';').map(Number)) {
+    if (code === 0) next = { ...PLAIN_STYLE };
+    else if (code === 1) next.bold = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 22) next.bold = false;
+    else if (code === 24) next.underline = false;
+    else if (code === 39) next.color = null;
+    else if (code >= 30 && code <= 37) next.color = ANSI_COLORS[code - 30];
+    else if (code >= 90 && code <= 97) next.color = ANSI_BRIGHT_COLORS[code - 90];
+  }
+  return next;
+};
+
+/**
+ * Splits text into spans styled by its ANSI color, bold and underline codes,
+ * starting from `initialStyle`, and returns the style in effect at its end.
+ * Other escape sequences, like cursor movement, are dropped.
+ */
+export function parseAnsi(text: string, initialStyle = PLAIN_STYLE): { spans: AnsiSpan[]; style: AnsiStyle } {
+  const spans: AnsiSpan[] = [];
+  let style = initialStyle;
+  let index = 0;
+
+  const push = (end: number) => {
+    const plain = stripAnsi(text.slice(index, end));
+    if (plain) spans.push({ ...style, text: plain });
+  };
+
+  for (const match of text.matchAll(SGR_SEQUENCE)) {
+    push(match.index);
+    style = applySgr(style, match[1]);
+    index = match.index + match[0].length;
+  }
+  push(text.length);
+
+  return { spans, style };
+}
+
+/**
+ * Splits chunks into styled lines. As in a real terminal, a style lasts until
+ * a code changes it, across line ends and across chunks of the same stream.
+ */
+export function styleChunks(chunks: TerminalChunk[]): StyledChunk[] {
+  const styles: Partial<Record<TerminalStream, AnsiStyle>> = {};
+
+  return chunks.map(({ stream, text }) => ({
+    stream,
+    lines: text.split('\n').map((line) => {
+      const { spans, style } = parseAnsi(line, styles[stream]);
+      styles[stream] = style;
+      return { text: line, spans };
+    }),
+  }));
+}
@@ -0,0 +1,705 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CodeEditor } from '@/components/code-editor';
+import { TestResults } from '@/components/test-results';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { defaultHintCost, hintCost, type TargetedHint } from '@/lib/hints';
+import {
+  loadLesson,
+  newLesson,
+  newTestCase,
+  saveLesson,
+  setLessonStatus,
+  slugify,
+  validateLesson,
+  type EditableLesson,
+  type EditableTestCase,
+  type PublishResult,
+} from '@/lib/lesson-authoring';
+import { AlertCircle, ArrowLeft, Plus, Save, Trash2, Upload, Undo2 } from 'lucide-react';
+
+const languages = [
+  { value: 'python', label: 'Python' },
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'java', label: 'Java' },
+  { value: 'cpp', label: 'C++' },
+  { value: 'go', label: 'Go' },
+  { value: 'rust', label: 'Rust' },
+];
+
+const difficulties = ['easy', 'medium', 'hard', 'expert'];
+
+const comparators = [
+  { value: 'exact', label: 'Exact match' },
+  { value: 'ignore_whitespace', label: 'Ignore whitespace' },
+  { value: 'numeric_tolerance', label: 'Numeric tolerance' },
+  { value: 'regex', label: 'Regular expression' },
+  { value: 'unordered_lines', label: 'Lines in any order' },
+  { value: 'json_equal', label: 'Equal JSON' },
+];
+
+type Tag = Pick<Tables<'tags'>, 'id' | 'name'>;
+
+export default function AdminLessonEditor() {
+  const { lessonId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [lesson, setLesson] = useState<EditableLesson>(newLesson());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [publishResult, setPublishResult] = useState<PublishResult | null>(null);
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  const isNew = lessonId === 'new';
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  useEffect(() => {
+    // Saving a new lesson moves to its own URL; there is nothing to reload then
+    if (lessonId && lessonId === lesson.id) return;
+
+    setProblems([]);
+    setPublishResult(null);
+    if (isNew) {
+      setLesson(newLesson());
+      setLoading(false);
+    } else if (lessonId) {
+      fetchLesson(lessonId);
+    }
+  }, [lessonId]);
+
+  const fetchLesson = async (id: string) => {
+    setLoading(true);
+    try {
+      setLesson(await loadLesson(id));
+    } catch (error) {
+      console.error('Error fetching lesson:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not load this lesson.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTags = async () => {
+    const { data, error } = await supabase.from('tags').select('id, name').order('name');
+
+    if (error) {
+      console.error('Error fetching tags:', error);
+    }
+    setTags(data || []);
+  };
+
+  const update = <K extends keyof EditableLesson>(field: K, value: EditableLesson[K]) => {
+    setLesson((current) => ({ ...current, [field]: value }));
+  };
+
+  const updateTestCase = (index: number, changes: Partial<EditableTestCase>) => {
+    update(
+      'test_cases',
+      lesson.test_cases.map((testCase, i) => (i === index ? { ...testCase, ...changes } : testCase))
+    );
+  };
+
+  const updateHint = (index: number, value: string) => {
+    update('hints', lesson.hints.map((hint, i) => (i === index ? value : hint)));
+  };
+
+  const updateHintCost = (index: number, value: number) => {
+    update(
+      'hint_costs',
+      lesson.hints.map((_, i) => (i === index ? value : hintCost(lesson.points, lesson.hint_costs, i)))
+    );
+  };
+
+  const addHint = () => {
+    setLesson((current) => ({
+      ...current,
+      hints: [...current.hints, ''],
+      hint_costs: [
+        ...current.hints.map((_, i) => hintCost(current.points, current.hint_costs, i)),
+        defaultHintCost(current.points, current.hints.length),
+      ],
+    }));
+  };
+
+  const removeHint = (index: number) => {
+    setLesson((current) => ({
+      ...current,
+      hints: current.hints.filter((_, i) => i !== index),
+      hint_costs: current.hints
+        .map((_, i) => hintCost(current.points, current.hint_costs, i))
+        .filter((_, i) => i !== index),
+    }));
+  };
+
+  const updateTargetedHint = (index: number, changes: Partial<TargetedHint>) => {
+    update(
+      'targeted_hints',
+      lesson.targeted_hints.map((targetedHint, i) => (i === index ? { ...targetedHint, ...changes } : targetedHint))
+    );
+  };
+
+  const toggleTag = (tagId: string) => {
+    update(
+      'tag_ids',
+      lesson.tag_ids.includes(tagId) ? lesson.tag_ids.filter((id) => id !== tagId) : [...lesson.tag_ids, tagId]
+    );
+  };
+
+  const save = async (): Promise<string | null> => {
+    const validationProblems = validateLesson(lesson);
+    setProblems(validationProblems);
+    if (validationProblems.length > 0) return null;
+
+    setSaving(true);
+    try {
+      const id = await saveLesson(lesson);
+      setLesson((current) => ({ ...current, id }));
+      if (isNew) {
+        navigate(`/admin/lessons/${id}`, { replace: true });
+      }
+      return id;
+    } catch (error) {
+      console.error('Error saving lesson:', error);
+      const slugTaken = (error as { code?: string }).code === '23505';
+      toast({
+        title: 'Error',
+        description: slugTaken
+          ? `Another ${lesson.language} lesson already uses the slug "${lesson.slug}".`
+          : 'Could not save the lesson. Please try again.',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Edits to a published lesson go back through publish-lesson's checks before learners see them
+  const handleSave = async () => {
+    if (lesson.status === 'published') {
+      await changeStatus('published');
+    } else if (await save()) {
+      toast({ title: 'Lesson saved', description: 'Saved as a draft.' });
+    }
+  };
+
+  const changeStatus = async (status: EditableLesson['status']) => {
+    const id = await save();
+    if (!id) return;
+
+    setSaving(true);
+    try {
+      const result = await setLessonStatus(id, status);
+      setPublishResult(result);
+      setProblems(result.problems);
+      update('status', result.status);
+
+      if (result.status === status) {
+        toast({
+          title: status === 'published' ? 'Lesson published' : 'Lesson unpublished',
+          description: status === 'published' ? 'Learners can now take this challenge.' : 'The lesson is a draft again.',
+        });
+      } else {
+        toast({
+          title: 'Saved as a draft',
+          description: 'The lesson did not pass the publish checks. Fix the problems listed, then publish again.',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Error changing lesson status:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not change the lesson status. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-2 text-muted-foreground">Loading lesson...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/admin/lessons">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              {isNew ? 'New Lesson' : lesson.title || 'Untitled lesson'}
+              <Badge variant={lesson.status === 'published' ? 'default' : 'secondary'} className="capitalize">
+                {lesson.status}
+              </Badge>
+            </h1>
+            <p className="text-muted-foreground">Publishing checks that the solution passes and the starter code fails</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+          {lesson.status === 'published' ? (
+            <Button variant="outline" onClick={() => changeStatus('draft')} disabled={saving}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Unpublish
+            </Button>
+          ) : (
+            <Button onClick={() => changeStatus('published')} disabled={saving}>
+              <Upload className="h-4 w-4 mr-2" />
+              {saving ? 'Checking...' : 'Publish'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <Card className="border-destructive">
+          <CardContent className="pt-6 space-y-1">
+            {problems.map((problem) => (
+              <p key={problem} className="text-sm text-destructive flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {problem}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {publishResult && (publishResult.solution || publishResult.starter) && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {publishResult.solution && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Reference solution</h3>
+              <TestResults report={publishResult.solution} />
+            </div>
+          )}
+          {publishResult.starter && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Starter code</h3>
+              <TestResults report={publishResult.starter} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+            <CardDescription>What learners see before they start</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="lesson-title">Title</Label>
+                <Input
+                  id="lesson-title"
+                  value={lesson.title}
+                  onChange={(e) =>
+                    setLesson((current) => ({
+                      ...current,
+                      title: e.target.value,
+                      // Follow the title until the lesson has been saved under a slug
+                      slug: current.id ? current.slug : slugify(e.target.value),
+                    }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lesson-slug">Slug</Label>
+                <Input
+                  id="lesson-slug"
+                  className="code-font"
+                  value={lesson.slug}
+                  onChange={(e) => update('slug', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lesson-description">Description</Label>
+              <Textarea
+                id="lesson-description"
+                rows={4}
+                value={lesson.description}
+                onChange={(e) => update('description', e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Language</Label>
+                <Select
+                  value={lesson.language}
+                  onValueChange={(value) => update('language', value as EditableLesson['language'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {languages.map((lang) => (
+                      <SelectItem key={lang.value} value={lang.value}>
+                        {lang.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Difficulty</Label>
+                <Select
+                  value={lesson.difficulty}
+                  onValueChange={(value) => update('difficulty', value as EditableLesson['difficulty'])}
+                >
+                  <SelectTrigger className="capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {difficulties.map((difficulty) => (
+                      <SelectItem key={difficulty} value={difficulty} className="capitalize">
+                        {difficulty}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lesson-points">Points</Label>
+                <Input
+                  id="lesson-points"
+                  type="number"
+                  min={0}
+                  value={lesson.points}
+                  onChange={(e) => update('points', Number(e.target.value))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Topics</Label>
+              <div className="flex flex-wrap gap-2">
+                {tags.map((tag) => (
+                  <Badge
+                    key={tag.id}
+                    variant={lesson.tag_ids.includes(tag.id) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleTag(tag.id)}
+                  >
+                    {tag.name}
+                  </Badge>
+                ))}
+                {tags.length === 0 && <p className="text-sm text-muted-foreground">No topics defined yet.</p>}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Hints</Label>
+                <Button variant="ghost" size="sm" onClick={addHint}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add hint
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Learners unlock hints in order, and each one costs the points next to it.
+              </p>
+              {lesson.hints.length === 0 && <p className="text-sm text-muted-foreground">No hints yet.</p>}
+              {lesson.hints.map((hint, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={hint}
+                    placeholder={`Hint ${index + 1}`}
+                    onChange={(e) => updateHint(index, e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-24"
+                    aria-label={`Hint ${index + 1} cost`}
+                    value={hintCost(lesson.points, lesson.hint_costs, index)}
+                    onChange={(e) => updateHintCost(index, Number(e.target.value))}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => removeHint(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Targeted hints</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    update('targeted_hints', [...lesson.targeted_hints, { match: 'output', pattern: '', hint: '' }])
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add targeted hint
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Shown for free after a failed check whose output, or the learner's code, matches the regular
+                expression.
+              </p>
+              {lesson.targeted_hints.map((targetedHint, index) => (
+                <div key={index} className="flex gap-2">
+                  <Select
+                    value={targetedHint.match}
+                    onValueChange={(value) => updateTargetedHint(index, { match: value as TargetedHint['match'] })}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="output">Output</SelectItem>
+                      <SelectItem value="code">Code</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="w-48 code-font"
+                    value={targetedHint.pattern}
+                    placeholder="Pattern"
+                    onChange={(e) => updateTargetedHint(index, { pattern: e.target.value })}
+                  />
+                  <Input
+                    value={targetedHint.hint}
+                    placeholder="Hint"
+                    onChange={(e) => updateTargetedHint(index, { hint: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update('targeted_hints', lesson.targeted_hints.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Expected Output</CardTitle>
+            <CardDescription>Shown to learners, and how program output is compared</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="lesson-expected-output">Expected output</Label>
+              <Textarea
+                id="lesson-expected-output"
+                rows={4}
+                className="code-font"
+                value={lesson.expected_output}
+                onChange={(e) => update('expected_output', e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Comparator</Label>
+                <Select
+                  value={lesson.comparator}
+                  onValueChange={(value) =>
+                    setLesson((current) => ({
+                      ...current,
+                      comparator: value as EditableLesson['comparator'],
+                      comparator_options: {},
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {comparators.map((comparator) => (
+                      <SelectItem key={comparator.value} value={comparator.value}>
+                        {comparator.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {lesson.comparator === 'numeric_tolerance' && (
+                <div className="space-y-2">
+                  <Label htmlFor="lesson-tolerance">Tolerance</Label>
+                  <Input
+                    id="lesson-tolerance"
+                    type="number"
+                    step="any"
+                    placeholder="0.000001"
+                    value={lesson.comparator_options.tolerance ?? ''}
+                    onChange={(e) =>
+                      update('comparator_options', e.target.value ? { tolerance: Number(e.target.value) } : {})
+                    }
+                  />
+                </div>
+              )}
+              {lesson.comparator === 'regex' && (
+                <div className="space-y-2">
+                  <Label htmlFor="lesson-flags">Flags</Label>
+                  <Input
+                    id="lesson-flags"
+                    placeholder="i, m, s"
+                    value={lesson.comparator_options.flags ?? ''}
+                    onChange={(e) => update('comparator_options', e.target.value ? { flags: e.target.value } : {})}
+                  />
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Starter Code</CardTitle>
+            <CardDescription>The buggy program learners start from</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CodeEditor
+              language={lesson.language}
+              value={lesson.starter_code}
+              onChange={(value) => update('starter_code', value || '')}
+              height="350px"
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reference Solution</CardTitle>
+            <CardDescription>Never shown to learners</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CodeEditor
+              language={lesson.language}
+              value={lesson.solution}
+              onChange={(value) => update('solution', value || '')}
+              height="350px"
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Test Cases</CardTitle>
+              <CardDescription>Hidden cases are only run on the server</CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update('test_cases', [...lesson.test_cases, newTestCase()])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add test case
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {lesson.test_cases.length === 0 && <p className="text-sm text-muted-foreground">No test cases yet.</p>}
+          {lesson.test_cases.map((testCase, index) => (
+            <div key={testCase.id} className="border rounded-md p-4 space-y-4">
+              <div className="flex items-center gap-4">
+                <Input
+                  className="flex-1"
+                  value={testCase.name}
+                  placeholder={`Test ${index + 1}`}
+                  onChange={(e) => updateTestCase(index, { name: e.target.value })}
+                />
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`weight-${testCase.id}`}>Weight</Label>
+                  <Input
+                    id={`weight-${testCase.id}`}
+                    type="number"
+                    min={1}
+                    className="w-20"
+                    value={testCase.weight}
+                    onChange={(e) => updateTestCase(index, { weight: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`hidden-${testCase.id}`}
+                    checked={testCase.is_hidden}
+                    onCheckedChange={(checked) => updateTestCase(index, { is_hidden: checked })}
+                  />
+                  <Label htmlFor={`hidden-${testCase.id}`}>Hidden</Label>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update('test_cases', lesson.test_cases.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Input (stdin)</Label>
+                  <Textarea
+                    rows={3}
+                    className="code-font"
+                    value={testCase.stdin}
+                    onChange={(e) => updateTestCase(index, { stdin: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Expected output</Label>
+                  <Textarea
+                    rows={3}
+                    className="code-font"
+                    value={testCase.expected_output}
+                    onChange={(e) => updateTestCase(index, { expected_output: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LessonPackImportDialog } from '@/components/lesson-pack-import-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { exportLessonPack } from '@/lib/lesson-pack';
+import { FileDown, Pencil, Plus } from 'lucide-react';
+
+type LessonSummary = Pick<
+  Tables<'lessons'>,
+  'id' | 'slug' | 'title' | 'language' | 'difficulty' | 'points' | 'order_index' | 'status'
+>;
+
+const languages = [
+  { value: 'all', label: 'All languages' },
+  { value: 'python', label: 'Python' },
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'java', label: 'Java' },
+  { value: 'cpp', label: 'C++' },
+  { value: 'go', label: 'Go' },
+  { value: 'rust', label: 'Rust' },
+];
+
+export default function AdminLessons() {
+  const { toast } = useToast();
+  const [lessons, setLessons] = useState<LessonSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [languageFilter, setLanguageFilter] = useState('all');
+
+  useEffect(() => {
+    fetchLessons();
+  }, []);
+
+  const fetchLessons = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('lessons')
+        .select('id, slug, title, language, difficulty, points, order_index, status')
+        .order('language')
+        .order('order_index');
+
+      if (error) throw error;
+      setLessons(data || []);
+    } catch (error) {
+      console.error('Error fetching lessons:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visibleLessons = lessons.filter((lesson) => languageFilter === 'all' || lesson.language === languageFilter);
+
+  const exportPack = async () => {
+    setExporting(true);
+    try {
+      const name = languageFilter === 'all' ? 'DebugMaster lessons' : `DebugMaster ${languageFilter} lessons`;
+      const pack = await exportLessonPack(
+        visibleLessons.map((lesson) => lesson.id),
+        name
+      );
+
+      const url = URL.createObjectURL(new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `lessons-${languageFilter}.lesson-pack.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting lessons:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not export the lessons. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Lessons</h1>
+          <p className="text-muted-foreground">Write new debugging challenges and publish them to learners</p>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <Select value={languageFilter} onValueChange={setLanguageFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {languages.map((lang) => (
+                <SelectItem key={lang.value} value={lang.value}>
+                  {lang.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <LessonPackImportDialog onImported={fetchLessons} />
+          <Button variant="outline" onClick={exportPack} disabled={exporting || visibleLessons.length === 0}>
+            <FileDown className="h-4 w-4 mr-2" />
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+          <Button asChild>
+            <Link to="/admin/lessons/new">
+              <Plus className="h-4 w-4 mr-2" />
+              New Lesson
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Lessons</CardTitle>
+          <CardDescription>Drafts are only visible to instructors until they are published</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading lessons...</p>
+          ) : visibleLessons.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No lessons yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Difficulty</TableHead>
+                  <TableHead>Points</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleLessons.map((lesson) => (
+                  <TableRow key={lesson.id}>
+                    <TableCell className="text-muted-foreground">{lesson.order_index}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{lesson.title}</p>
+                      <p className="text-xs text-muted-foreground code-font">{lesson.slug}</p>
+                    </TableCell>
+                    <TableCell className="capitalize">{lesson.language}</TableCell>
+                    <TableCell className="capitalize">{lesson.difficulty}</TableCell>
+                    <TableCell>{lesson.points}</TableCell>
+                    <TableCell>
+                      <Badge variant={lesson.status === 'published' ? 'default' : 'secondary'} className="capitalize">
+                        {lesson.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to={`/admin/lessons/${lesson.id}`}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,40 +1,94 @@
 import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { CodeEditor } from '@/components/code-editor';
+import { DebugPanel } from '@/components/debug-panel';
 import { Terminal } from '@/components/terminal';
+import { BadgeUnlockedDialog } from '@/components/badge-unlocked-dialog';
+import { FixReviewDialog } from '@/components/fix-review-dialog';
+import { SubmissionHistory } from '@/components/submission-history';
+import { TestResults } from '@/components/test-results';
+import { HintPanel } from '@/components/hint-panel';
+import { useActivityHeartbeat } from '@/hooks/use-activity-heartbeat';
 import { useAuth } from '@/hooks/use-auth';
+import { useLessonDraft } from '@/hooks/use-lesson-draft';
+import { useLessonWorkspace } from '@/hooks/use-lesson-workspace';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Lightbulb, RotateCcw, Play, CheckCircle, ArrowRight } from 'lucide-react';
+import { Constants, type Json } from '@/integrations/supabase/types';
+import type { Comparator } from '@/lib/comparators';
+import { getRunner, nextStep, type DebugTrace, type ProgrammingLanguage, type StepCommand } from '@/lib/execution';
+import { describeScore, type EarnedBadge, type FixReport, type SubmissionVerdict } from '@/lib/grading';
+import { hintCost } from '@/lib/hints';
+import {
+  fetchCompletedLessonIds,
+  fetchPrerequisites,
+  missingPrerequisites,
+  type PrerequisiteMap,
+} from '@/lib/learning-paths';
+import { fetchRecommendations, type Recommendation } from '@/lib/recommendations';
+import { RotateCcw, Play, CheckCircle, ArrowRight, ChevronLeft, ChevronRight, SearchX, Lock, Bug } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
 interface Lesson {
   id: string;
+  slug: string;
   title: string;
-  language: string;
+  language: ProgrammingLanguage;
   difficulty: string;
   description: string;
   starter_code: string;
   expected_output: string;
-  hints: string[];
+  hint_count: number;
+  hint_costs: number[];
   points: number;
+  comparator: Comparator;
+  comparator_options: Json;
 }
 
+type NextLesson = Pick<Recommendation, 'language' | 'slug' | 'title' | 'reason'>;
+
+const DEFAULT_LANGUAGE: ProgrammingLanguage = 'python';
+
+const isLanguage = (value: string | undefined): value is ProgrammingLanguage =>
+  Constants.public.Enums.programming_language.includes(value as ProgrammingLanguage);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const challengePath = (lesson: Pick<Lesson, 'language' | 'slug'>) => `/challenge/${lesson.language}/${lesson.slug}`;
+
 export default function Challenge() {
+  // The URL is the source of truth for the language and lesson, so links can be
+  // shared and the browser history moves between lessons.
+  const { language: languageParam, lessonSlug } = useParams();
+  const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
   const [lessons, setLessons] = useState<Lesson[]>([]);
-  const [currentLesson, setCurrentLesson] = useState<Lesson | null>(null);
-  const [code, setCode] = useState('');
-  const [output, setOutput] = useState('');
-  const [showHints, setShowHints] = useState<boolean[]>([]);
-  const [isRunning, setIsRunning] = useState(false);
-  const [selectedLanguage, setSelectedLanguage] = useState('python');
+  const [breakpoints, setBreakpoints] = useState<number[]>([]);
+  const [debugTrace, setDebugTrace] = useState<DebugTrace | null>(null);
+  const [debugPosition, setDebugPosition] = useState(0);
+  const [newBadges, setNewBadges] = useState<EarnedBadge[]>([]);
+  const [fixReview, setFixReview] = useState<{ fix: FixReport; code: string; next: NextLesson | null } | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [prerequisites, setPrerequisites] = useState<PrerequisiteMap>(new Map());
+  const [completedIds, setCompletedIds] = useState<Set<string>>(new Set());
+  const [unlockStateLoaded, setUnlockStateLoaded] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [attempts, setAttempts] = useState(0);
   const [isFirstChallenge, setIsFirstChallenge] = useState(false);
 
   const languages = [
@@ -46,6 +100,63 @@ export default function Challenge() {
     { value: 'rust', label: 'Rust' },
   ];
 
+  const selectedLanguage = languageParam ?? DEFAULT_LANGUAGE;
+  const lessonsLoaded = lessons.length > 0 && lessons[0].language === selectedLanguage;
+  const currentLesson = lessonsLoaded ? lessons.find((lesson) => lesson.slug === lessonSlug) ?? null : null;
+  const currentIndex = currentLesson ? lessons.indexOf(currentLesson) : -1;
+  const previousLesson = currentIndex > 0 ? lessons[currentIndex - 1] : null;
+  const nextLesson = currentIndex >= 0 && currentIndex < lessons.length - 1 ? lessons[currentIndex + 1] : null;
+  const {
+    code,
+    setCode,
+    output,
+    stdin,
+    setStdin,
+    executionResult,
+    testCases,
+    gradeReport,
+    outputDiff,
+    focusLocation,
+    setFocusLocation,
+    revealedHints,
+    targetedHints,
+    setTargetedHints,
+    attempts,
+    setAttempts,
+    isRunning,
+    setIsRunning,
+    waitingForInput,
+    submitInput,
+    clearResults,
+    ...workspace
+  } = useLessonWorkspace(currentLesson, { userId: user?.id });
+  const lockedBy = currentLesson ? missingPrerequisites(currentLesson.id, prerequisites, completedIds) : [];
+  // Hints only cost points until the lesson has been completed once
+  const hintCosts =
+    currentLesson && !completedIds.has(currentLesson.id)
+      ? Array.from({ length: currentLesson.hint_count }, (_, index) =>
+          hintCost(currentLesson.points ?? 0, currentLesson.hint_costs, index)
+        )
+      : null;
+  const hintsRevealed = revealedHints.length;
+  const hintPointsSpent = hintCosts ? hintCosts.slice(0, hintsRevealed).reduce((sum, cost) => sum + cost, 0) : 0;
+  const canDebug = currentLesson ? Boolean(getRunner(currentLesson.language).debug) : false;
+  // While debugging, the terminal shows what the program had written by the step it is paused on
+  const debugStep = debugTrace?.steps[debugPosition] ?? null;
+  const terminalOutput = debugTrace
+    ? debugTrace.output.slice(0, debugStep?.outputCount ?? debugTrace.output.length)
+    : output;
+
+  useActivityHeartbeat(user?.id, currentLesson?.id);
+
+  const { clearDraft } = useLessonDraft({
+    userId: user?.id,
+    lessonId: currentLesson?.id,
+    code,
+    starterCode: currentLesson?.starter_code,
+    onRestore: setCode,
+  });
+
   const difficultyColors = {
     easy: 'bg-green-500',
     medium: 'bg-yellow-500',
@@ -54,18 +165,66 @@ export default function Challenge() {
   };
 
   useEffect(() => {
-    fetchLessons();
+    fetchUnlockState();
+  }, [user]);
+
+  useEffect(() => {
+    setNotFound(false);
+    if (isLanguage(selectedLanguage)) {
+      fetchLessons(selectedLanguage);
+    } else if (UUID_PATTERN.test(selectedLanguage)) {
+      redirectLegacyLink(selectedLanguage);
+    } else {
+      setNotFound(true);
+      setLoading(false);
+    }
   }, [selectedLanguage]);
 
+  useEffect(() => {
+    if (!lessonsLoaded) return;
+
+    if (!lessonSlug) {
+      navigate(challengePath(lessons[0]), { replace: true });
+    } else {
+      setNotFound(!currentLesson);
+    }
+  }, [lessons, lessonSlug]);
+
   useEffect(() => {
     if (currentLesson) {
       setCode(currentLesson.starter_code);
-      setOutput('');
-      setShowHints([]);
-      setAttempts(0);
+      setBreakpoints([]);
+      setDebugTrace(null);
+      setFixReview(null);
+      startLesson(currentLesson.id);
       checkIfFirstChallenge();
     }
-  }, [currentLesson]);
+  }, [currentLesson?.id]);
+
+  // Starts the solve clock on the server, and picks up attempts made before a refresh
+  const startLesson = async (lessonId: string) => {
+    if (!user) return;
+
+    const [{ error: startError }, { count, error: attemptsError }] = await Promise.all([
+      supabase
+        .from('lesson_starts')
+        .upsert({ user_id: user.id, lesson_id: lessonId }, { onConflict: 'user_id,lesson_id', ignoreDuplicates: true }),
+      supabase
+        .from('submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('lesson_id', lessonId)
+        .eq('kind', 'check'),
+    ]);
+
+    if (startError) {
+      console.error('Error starting lesson:', startError);
+    }
+    if (attemptsError) {
+      console.error('Error fetching attempts:', attemptsError);
+    }
+    setAttempts(count ?? 0);
+  };
 
   const checkIfFirstChallenge = async () => {
     if (!user) return;
@@ -109,19 +268,23 @@ export default function Challenge() {
     }, 250);
   };
 
-  const fetchLessons = async () => {
+  const fetchLessons = async (language: ProgrammingLanguage) => {
+    setLoading(true);
     try {
       const { data, error } = await supabase
         .from('lessons')
-        .select('*')
-        .eq('language', selectedLanguage as any)
+        .select(
+          'id, slug, title, language, difficulty, description, starter_code, expected_output, hint_count, hint_costs, points, comparator, comparator_options'
+        )
+        .eq('language', language)
+        .eq('status', 'published')
         .order('order_index');
 
       if (error) throw error;
 
       setLessons(data || []);
-      if (data && data.length > 0 && !currentLesson) {
-        setCurrentLesson(data[0]);
+      if (!data || data.length === 0) {
+        setNotFound(true);
       }
     } catch (error) {
       console.error('Error fetching lessons:', error);
@@ -135,43 +298,124 @@ export default function Challenge() {
     }
   };
 
-  const runCode = async () => {
+  // Older links point at /challenge/:lessonId
+  const redirectLegacyLink = async (id: string) => {
+    const { data, error } = await supabase
+      .from('lessons')
+      .select('language, slug')
+      .eq('id', id)
+      .eq('status', 'published')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching lesson:', error);
+    }
+    if (data) {
+      navigate(challengePath(data), { replace: true });
+    } else {
+      setNotFound(true);
+      setLoading(false);
+    }
+  };
+
+  const fetchUnlockState = async () => {
+    try {
+      const [prerequisitesData, completedData] = await Promise.all([
+        fetchPrerequisites(),
+        user ? fetchCompletedLessonIds(user.id) : Promise.resolve(new Set<string>()),
+      ]);
+
+      setPrerequisites(prerequisitesData);
+      setCompletedIds(completedData);
+    } catch (error) {
+      console.error('Error fetching prerequisites:', error);
+    } finally {
+      setUnlockStateLoaded(true);
+    }
+  };
+
+  const runCode = () => {
+    setDebugTrace(null);
+    workspace.runCode();
+  };
+
+  const toggleBreakpoint = (line: number) => {
+    setBreakpoints((lines) => (lines.includes(line) ? lines.filter((other) => other !== line) : [...lines, line]));
+  };
+
+  // Starts at the first breakpoint, or the first line when there are none
+  const firstDebugStep = (trace: DebugTrace) =>
+    nextStep(trace.steps, -1, breakpoints.length > 0 ? 'continue' : 'into', breakpoints);
+
+  // The whole run is recorded up front and stepping moves through the recording,
+  // so the code is read-only until the learner stops debugging
+  const startDebugging = async () => {
+    const runner = currentLesson && getRunner(currentLesson.language);
+    if (!runner?.debug) return;
+
     setIsRunning(true);
-    
-    // Simulate code execution (in a real app, this would call a secure code execution service)
-    setTimeout(() => {
-      // Simple simulation based on expected output
-      if (currentLesson) {
-        const trimmedCode = code.trim();
-        const expectedOutput = currentLesson.expected_output.trim();
-        
-        // Very basic simulation - in production, use a secure sandboxed environment
-        if (currentLesson.language === 'python' && currentLesson.title === 'Off-by-One Error in Loop') {
-          if (trimmedCode.includes('range(1, 6)')) {
-            setOutput(expectedOutput);
-          } else if (trimmedCode.includes('range(1, 7)')) {
-            setOutput('1\n2\n3\n4\n5\n6');
-          } else {
-            setOutput('Error: Invalid code or syntax error');
-          }
-        } else {
-          // For other lessons, provide a generic simulation
-          setOutput('Code executed successfully!\n' + expectedOutput);
-        }
-      }
-      setIsRunning(false);
-    }, 1500);
+    clearResults();
+
+    const trace = await runner.debug(code, { stdin });
+    setDebugTrace(trace);
+    setDebugPosition(firstDebugStep(trace));
+    setIsRunning(false);
+  };
+
+  const stepDebugger = (command: StepCommand) => {
+    if (debugTrace) {
+      setDebugPosition((position) => nextStep(debugTrace.steps, position, command, breakpoints));
+    }
   };
 
-  const checkSolution = () => {
+  // The server re-runs every test case, including hidden ones, records the
+  // attempt and awards points on success, less what the revealed hints cost.
+  const verifySubmission = async (): Promise<SubmissionVerdict | null> => {
+    const { data, error } = await supabase.functions.invoke<SubmissionVerdict>('grade-submission', {
+      body: { lessonId: currentLesson.id, code },
+    });
+
+    if (error) {
+      console.error('Error verifying submission:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not verify your solution. Please try again.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+    return data;
+  };
+
+  // Falls back to the next lesson in this language when the recommender is
+  // unavailable or has nothing to recommend
+  const recommendNextLesson = async (): Promise<NextLesson | null> => {
+    const fallback = nextLesson && { ...nextLesson, reason: 'The next challenge in this language' };
+    if (!user) return fallback;
+
+    try {
+      const [recommendation] = await fetchRecommendations(user.id, { currentLessonId: currentLesson.id, limit: 1 });
+      return recommendation ?? fallback;
+    } catch (error) {
+      console.error('Error fetching recommendation:', error);
+      return fallback;
+    }
+  };
+
+  const checkSolution = async () => {
     if (!currentLesson) return;
 
-    const actualOutput = output.trim();
-    const expectedOutput = currentLesson.expected_output.trim();
-    const newAttempts = attempts + 1;
-    setAttempts(newAttempts);
+    setDebugTrace(null);
+    const outcome = await workspace.checkSolution(verifySubmission);
+    if (!outcome) return;
 
-    if (actualOutput === expectedOutput) {
+    const { report, verdict, attempt, targetedHints: matchedHints } = outcome;
+    if (verdict) {
+      setNewBadges(verdict.newBadges);
+      setCompletedIds((prev) => new Set(prev).add(currentLesson.id));
+    }
+
+    if (report.passed) {
       // Trigger confetti on first challenge completion
       if (isFirstChallenge) {
         triggerConfetti();
@@ -179,95 +423,91 @@ export default function Challenge() {
       
       toast({
         title: '🎉 Correct Solution!',
-        description: `You earned ${currentLesson.points} points!`,
+        description: verdict?.scoreBreakdown
+          ? `You earned ${verdict.scoreBreakdown.total} points! (${describeScore(verdict.scoreBreakdown)})`
+          : 'You already completed this challenge, so no new points this time.',
         variant: 'default',
       });
-      
-      saveProgress(newAttempts);
-      
-      // Move to next lesson after a short delay
-      setTimeout(() => {
-        const currentIndex = lessons.findIndex(l => l.id === currentLesson.id);
-        if (currentIndex < lessons.length - 1) {
-          setCurrentLesson(lessons[currentIndex + 1]);
-        } else {
-          toast({
-            title: '🏆 All challenges completed!',
-            description: 'Try another language or check the leaderboard!',
-          });
-        }
-      }, 1500);
+
+      // Review the fix against the starter code, then offer the recommended lesson
+      const recommended = await recommendNextLesson();
+      if (verdict?.fix) {
+        setFixReview({ fix: verdict.fix, code, next: recommended });
+      } else if (recommended) {
+        navigate(challengePath(recommended));
+      }
+      if (!recommended) {
+        toast({
+          title: '🏆 All challenges completed!',
+          description: 'Try another language or check the leaderboard!',
+        });
+      }
     } else {
-      // Show hints automatically on second attempt
-      if (newAttempts === 2 && currentLesson.hints && currentLesson.hints.length > 0) {
-        const newShowHints = [...showHints];
-        newShowHints[0] = true;
-        setShowHints(newShowHints);
-        
+      if (matchedHints.length > 0) {
+        toast({
+          title: '🎯 We spotted something',
+          description: 'Check the hints section for what your last check suggests.',
+        });
+      } else if (attempt === 2 && hintsRevealed < currentLesson.hint_count) {
+        // Offer the next hint on the second attempt, rather than spending points for the learner
         toast({
-          title: '💡 Hint Unlocked!',
-          description: 'Check the hints section for guidance.',
+          title: '💡 Stuck?',
+          description: hintCosts?.[hintsRevealed]
+            ? `Hint ${hintsRevealed + 1} is available for ${hintCosts[hintsRevealed]} points.`
+            : `Hint ${hintsRevealed + 1} is available in the hints section.`,
         });
       } else {
+        const failedHidden = report.cases.filter((result) => result.hidden && !result.passed).length;
+
         toast({
           title: 'Not quite right',
-          description: `Attempt ${newAttempts}. Keep trying!`,
+          description: failedHidden > 0
+            ? `Attempt ${attempt}. ${failedHidden} hidden test${failedHidden === 1 ? '' : 's'} failed. Keep trying!`
+            : `Attempt ${attempt}. Keep trying!`,
           variant: 'destructive',
         });
       }
     }
   };
 
-  const saveProgress = async (attemptCount: number) => {
-    if (!user || !currentLesson) return;
-
-    try {
-      const hintsUsed = showHints.filter(Boolean).length;
-      
-      await supabase.from('user_progress').insert({
-        user_id: user.id,
-        lesson_id: currentLesson.id,
-        hints_used: hintsUsed,
-        attempts: attemptCount,
-      });
-
-      // Update profile stats
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('total_lessons_completed, total_points')
-        .eq('user_id', user.id)
-        .single();
-
-      if (profile) {
-        await supabase
-          .from('profiles')
-          .update({
-            total_lessons_completed: (profile.total_lessons_completed || 0) + 1,
-            total_points: (profile.total_points || 0) + currentLesson.points,
-          })
-          .eq('user_id', user.id);
-      }
-    } catch (error) {
-      console.error('Error saving progress:', error);
-    }
-  };
-
-  const showHint = (index: number) => {
-    const newShowHints = [...showHints];
-    newShowHints[index] = true;
-    setShowHints(newShowHints);
-  };
-
+  // Revealed hints stay revealed, since they have already been paid for, and attempts still count
   const resetCode = () => {
     if (currentLesson) {
+      clearDraft();
       setCode(currentLesson.starter_code);
-      setOutput('');
-      setAttempts(0);
-      setShowHints([]);
+      setDebugTrace(null);
+      clearResults();
+      setTargetedHints([]);
     }
   };
 
-  if (loading) {
+  if (notFound) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="text-center space-y-4">
+          <SearchX className="h-12 w-12 text-muted-foreground mx-auto" />
+          <div>
+            <h2 className="text-2xl font-bold">Challenge not found</h2>
+            <p className="text-muted-foreground">
+              There is no published challenge at this address. It may have been renamed or unpublished.
+            </p>
+          </div>
+          <div className="flex justify-center gap-2">
+            <Button asChild>
+              <Link to="/learn">Browse Lessons</Link>
+            </Button>
+            {isLanguage(selectedLanguage) && lessons.length > 0 && (
+              <Button variant="outline" asChild>
+                <Link to={challengePath(lessons[0])}>First {selectedLanguage} challenge</Link>
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading || !unlockStateLoaded || !currentLesson) {
     return (
       <div className="flex items-center justify-center min-h-[50vh]">
         <div className="text-center">
@@ -278,8 +518,44 @@ export default function Challenge() {
     );
   }
 
+  if (lockedBy.length > 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="text-center space-y-4 max-w-md">
+          <Lock className="h-12 w-12 text-muted-foreground mx-auto" />
+          <div>
+            <h2 className="text-2xl font-bold">{currentLesson.title} is locked</h2>
+            <p className="text-muted-foreground">Complete these challenges first to unlock it:</p>
+          </div>
+          <div className="flex flex-col gap-2">
+            {lockedBy.map((lesson) => (
+              <Button key={lesson.id} variant="outline" asChild>
+                <Link to={challengePath(lesson)}>{lesson.title}</Link>
+              </Button>
+            ))}
+          </div>
+          <Button variant="ghost" asChild>
+            <Link to="/learn">Browse Lessons</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
+      <BadgeUnlockedDialog badges={newBadges} onClose={() => setNewBadges([])} />
+      <FixReviewDialog
+        open={fixReview !== null && newBadges.length === 0}
+        language={currentLesson.language}
+        starterCode={currentLesson.starter_code}
+        code={fixReview?.code ?? ''}
+        fix={fixReview?.fix ?? null}
+        next={fixReview?.next ?? null}
+        onNext={() => fixReview?.next && navigate(challengePath(fixReview.next))}
+        onClose={() => setFixReview(null)}
+      />
+
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold">Debug Challenge</h1>
@@ -289,7 +565,30 @@ export default function Challenge() {
         </div>
         
         <div className="flex items-center gap-4">
-          <Select value={selectedLanguage} onValueChange={setSelectedLanguage}>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!previousLesson}
+              onClick={() => previousLesson && navigate(challengePath(previousLesson))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            {currentLesson && (
+              <span className="text-sm text-muted-foreground px-2">
+                {currentIndex + 1} / {lessons.length}
+              </span>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!nextLesson}
+              onClick={() => nextLesson && navigate(challengePath(nextLesson))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <Select value={selectedLanguage} onValueChange={(value) => navigate(`/challenge/${value}`)}>
             <SelectTrigger className="w-40">
               <SelectValue />
             </SelectTrigger>
@@ -327,6 +626,7 @@ export default function Challenge() {
                 )}
                 <div className="text-sm text-muted-foreground">
                   {currentLesson?.points} points
+                  {hintPointsSpent > 0 && ` · −${hintPointsSpent} for hints`}
                 </div>
               </div>
             </div>
@@ -336,37 +636,29 @@ export default function Challenge() {
           <CardContent className="flex-1 space-y-4">
             <div>
               <h4 className="font-medium mb-2">Expected Output:</h4>
-              <pre className="bg-muted p-3 rounded-md text-sm code-font">
-                {currentLesson?.expected_output}
-              </pre>
+              <div className="space-y-2">
+                {testCases.map((testCase) => (
+                  <div key={testCase.id} className="space-y-1">
+                    {testCase.stdin && (
+                      <pre className="bg-muted/50 p-3 rounded-md text-sm code-font text-muted-foreground">
+                        {testCase.stdin}
+                      </pre>
+                    )}
+                    <pre className="bg-muted p-3 rounded-md text-sm code-font">
+                      {testCase.expected_output}
+                    </pre>
+                  </div>
+                ))}
+              </div>
             </div>
 
-            {currentLesson?.hints && currentLesson.hints.length > 0 && (
-              <div>
-                <h4 className="font-medium mb-2">Hints:</h4>
-                <div className="space-y-2">
-                  {currentLesson.hints.map((hint, index) => (
-                    <div key={index}>
-                      {showHints[index] ? (
-                        <div className="bg-muted p-3 rounded-md text-sm">
-                          <Lightbulb className="inline h-4 w-4 text-yellow-500 mr-2" />
-                          {hint}
-                        </div>
-                      ) : (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => showHint(index)}
-                        >
-                          <Lightbulb className="h-4 w-4 mr-2" />
-                          Show Hint {index + 1}
-                        </Button>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
+            <HintPanel
+              count={currentLesson.hint_count}
+              revealed={revealedHints}
+              onReveal={workspace.revealNextHint}
+              costs={hintCosts ?? undefined}
+              targetedHints={targetedHints}
+            />
           </CardContent>
         </Card>
 
@@ -377,10 +669,40 @@ export default function Challenge() {
               <div className="flex items-center justify-between">
                 <CardTitle className="text-lg">Code Editor</CardTitle>
                 <div className="flex gap-2">
-                  <Button variant="outline" size="sm" onClick={resetCode}>
-                    <RotateCcw className="h-4 w-4 mr-2" />
-                    Reset
-                  </Button>
+                  {user && currentLesson && (
+                    <SubmissionHistory
+                      userId={user.id}
+                      lessonId={currentLesson.id}
+                      currentCode={code}
+                      onRestore={setCode}
+                    />
+                  )}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reset
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Reset to starter code?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Your saved draft for this challenge will be discarded. Past submissions stay in your history.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={resetCode}>Reset</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                  {canDebug && (
+                    <Button variant="outline" onClick={startDebugging} disabled={isRunning}>
+                      <Bug className="h-4 w-4 mr-2" />
+                      Debug
+                    </Button>
+                  )}
                   <Button onClick={runCode} disabled={isRunning}>
                     <Play className="h-4 w-4 mr-2" />
                     {isRunning ? 'Running...' : 'Run Code'}
@@ -394,22 +716,75 @@ export default function Challenge() {
                 value={code}
                 onChange={(value) => setCode(value || '')}
                 height="300px"
+                readOnly={Boolean(debugTrace)}
+                diagnostics={executionResult?.diagnostics}
+                focusLocation={focusLocation}
+                breakpoints={breakpoints}
+                onToggleBreakpoint={canDebug ? toggleBreakpoint : undefined}
+                pausedLine={debugStep?.line ?? null}
               />
             </CardContent>
           </Card>
 
+          {debugTrace && (
+            <Card>
+              <CardHeader className="pb-4">
+                <CardTitle className="text-lg">Debugger</CardTitle>
+                <CardDescription>Click beside a line number to set a breakpoint</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DebugPanel
+                  trace={debugTrace}
+                  position={debugPosition}
+                  onCommand={stepDebugger}
+                  onRestart={() => setDebugPosition(firstDebugStep(debugTrace))}
+                  onStop={() => setDebugTrace(null)}
+                  onSelectFrame={(frame) => setFocusLocation({ line: frame.line, column: 1 })}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader className="pb-4">
               <div className="flex items-center justify-between">
-                <CardTitle className="text-lg">Output</CardTitle>
-                <Button onClick={checkSolution} disabled={!output || isRunning}>
+                <div className="flex items-center gap-3">
+                  <CardTitle className="text-lg">Output</CardTitle>
+                  {executionResult && (
+                    <Badge
+                      variant={executionResult.status === 'success' ? 'outline' : 'destructive'}
+                      className="text-xs"
+                    >
+                      exit {executionResult.exitCode} · {executionResult.durationMs} ms
+                      {executionResult.memoryKb !== undefined && ` · ${Math.round(executionResult.memoryKb / 1024)} MB`}
+                    </Badge>
+                  )}
+                </div>
+                <Button onClick={checkSolution} disabled={isRunning}>
                   <CheckCircle className="h-4 w-4 mr-2" />
                   Check Solution
                 </Button>
               </div>
             </CardHeader>
             <CardContent className="p-0">
-              <Terminal output={output} isLoading={isRunning} height="200px" />
+              <Terminal
+                output={terminalOutput}
+                isLoading={isRunning}
+                height="200px"
+                diff={outputDiff}
+                language={currentLesson.language}
+                onLocationClick={setFocusLocation}
+                waitingForInput={waitingForInput}
+                onInput={submitInput}
+                stdin={stdin}
+                onStdinChange={setStdin}
+                interactive={getRunner(currentLesson.language).interactive}
+              />
+              {gradeReport && (
+                <div className="mt-4">
+                  <TestResults report={gradeReport} />
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
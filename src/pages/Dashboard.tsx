@@ -5,9 +5,26 @@ import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/use-auth';
 import { supabase } from '@/integrations/supabase/client';
-import { Trophy, BookOpen, Target, Flame, Code } from 'lucide-react';
+import {
+  fetchCompletedLessonIds,
+  fetchLearningPaths,
+  fetchPrerequisites,
+  missingPrerequisites,
+  nextPathLesson,
+  type LearningPath,
+  type PrerequisiteMap,
+} from '@/lib/learning-paths';
+import { fetchRecommendations, type Recommendation } from '@/lib/recommendations';
+import { Trophy, BookOpen, Target, Flame, Lock, Route, Sparkles } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
+const difficultyColors = {
+  easy: 'bg-green-500',
+  medium: 'bg-yellow-500',
+  hard: 'bg-orange-500',
+  expert: 'bg-red-500',
+};
+
 interface ProfileData {
   total_lessons_completed: number;
   total_points: number;
@@ -26,12 +43,18 @@ export default function Dashboard() {
   const { user } = useAuth();
   const [profile, setProfile] = useState<ProfileData | null>(null);
   const [recentBadges, setRecentBadges] = useState<RecentBadge[]>([]);
+  const [paths, setPaths] = useState<LearningPath[]>([]);
+  const [prerequisites, setPrerequisites] = useState<PrerequisiteMap>(new Map());
+  const [completedIds, setCompletedIds] = useState<Set<string>>(new Set());
+  const [recommendations, setRecommendations] = useState<Recommendation[] | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (user) {
       fetchProfileData();
       fetchRecentBadges();
+      fetchPathProgress();
+      fetchRecommended();
     }
   }, [user]);
 
@@ -83,6 +106,30 @@ export default function Dashboard() {
     }
   };
 
+  const fetchPathProgress = async () => {
+    try {
+      const [pathsData, prerequisitesData, completedData] = await Promise.all([
+        fetchLearningPaths(),
+        fetchPrerequisites(),
+        fetchCompletedLessonIds(user!.id),
+      ]);
+
+      setPaths(pathsData);
+      setPrerequisites(prerequisitesData);
+      setCompletedIds(completedData);
+    } catch (error) {
+      console.error('Error fetching learning paths:', error);
+    }
+  };
+
+  const fetchRecommended = async () => {
+    try {
+      setRecommendations(await fetchRecommendations(user!.id));
+    } catch (error) {
+      console.error('Error fetching recommendations:', error);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[50vh]">
@@ -157,6 +204,113 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Recommended for you
+          </CardTitle>
+          <CardDescription>
+            Picked from your recent solves, the concepts you find hardest and the difficulty you are ready for
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {recommendations === null ? null : recommendations.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {recommendations.map((lesson) => (
+                <Link
+                  key={lesson.id}
+                  to={`/challenge/${lesson.language}/${lesson.slug}`}
+                  className="border rounded-lg p-4 space-y-2 hover:border-primary transition-colors"
+                >
+                  <p className="font-medium">{lesson.title}</p>
+                  <div className="flex gap-2">
+                    <Badge variant="outline" className="capitalize">
+                      {lesson.language}
+                    </Badge>
+                    <Badge className={`text-white capitalize ${difficultyColors[lesson.difficulty]}`}>
+                      {lesson.difficulty}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{lesson.reason}</p>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">
+              <Trophy className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>You have completed every challenge available to you</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Learning Paths</CardTitle>
+          <CardDescription>
+            Work through a path in order, or pick up where you left off
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {paths.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {paths.map((path) => {
+                const completed = path.lessons.filter((lesson) => completedIds.has(lesson.id)).length;
+                const percent = path.lessons.length > 0 ? Math.round((completed / path.lessons.length) * 100) : 0;
+                const next = nextPathLesson(path, prerequisites, completedIds);
+                const lockedBy = next ? missingPrerequisites(next.id, prerequisites, completedIds) : [];
+
+                return (
+                  <div key={path.id} className="border rounded-lg p-4 flex flex-col gap-3">
+                    <div>
+                      <p className="font-medium">{path.title}</p>
+                      <p className="text-sm text-muted-foreground">{path.description}</p>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>
+                          {completed} of {path.lessons.length} lessons
+                        </span>
+                        <span>{percent}%</span>
+                      </div>
+                      <Progress value={percent} />
+                    </div>
+                    {next ? (
+                      <div className="mt-auto space-y-2">
+                        <p className="text-sm">
+                          Next: <span className="font-medium">{next.title}</span>
+                        </p>
+                        {lockedBy.length > 0 && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Lock className="h-3 w-3" />
+                            Unlocks after {lockedBy.map((lesson) => lesson.title).join(', ')}
+                          </p>
+                        )}
+                        <Link to={`/challenge/${next.language}/${next.slug}`}>
+                          <Button size="sm" className="w-full">
+                            {completed === 0 ? 'Start Path' : 'Continue'}
+                          </Button>
+                        </Link>
+                      </div>
+                    ) : (
+                      <Badge variant="secondary" className="mt-auto w-fit">
+                        Path complete
+                      </Badge>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">
+              <Route className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>No learning paths yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
@@ -166,14 +320,8 @@ export default function Dashboard() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Link to="/challenge">
-              <Button className="w-full justify-start">
-                <Code className="mr-2 h-4 w-4" />
-                Start Debugging Challenge
-              </Button>
-            </Link>
             <Link to="/learn">
-              <Button variant="outline" className="w-full justify-start">
+              <Button className="w-full justify-start">
                 <BookOpen className="mr-2 h-4 w-4" />
                 Browse Lessons
               </Button>
@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/use-auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { fetchPrerequisites, missingPrerequisites, type PrerequisiteMap } from '@/lib/learning-paths';
+import { CheckCircle2, Circle, Lock, Search } from 'lucide-react';
+
+type Tag = Pick<Tables<'tags'>, 'id' | 'slug' | 'name'>;
+
+interface CatalogLesson {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  language: string;
+  difficulty: string;
+  points: number | null;
+  tagIds: string[];
+}
+
+const SEARCH_DELAY_MS = 300;
+
+const languages = [
+  { value: 'all', label: 'All languages' },
+  { value: 'python', label: 'Python' },
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'java', label: 'Java' },
+  { value: 'cpp', label: 'C++' },
+  { value: 'go', label: 'Go' },
+  { value: 'rust', label: 'Rust' },
+];
+
+const difficulties = ['easy', 'medium', 'hard', 'expert'];
+
+const difficultyColors = {
+  easy: 'bg-green-500',
+  medium: 'bg-yellow-500',
+  hard: 'bg-orange-500',
+  expert: 'bg-red-500',
+};
+
+export default function Learn() {
+  const { user } = useAuth();
+  const [lessons, setLessons] = useState<CatalogLesson[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [completedIds, setCompletedIds] = useState<Set<string>>(new Set());
+  const [prerequisites, setPrerequisites] = useState<PrerequisiteMap>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [language, setLanguage] = useState('all');
+  const [difficulty, setDifficulty] = useState('all');
+  const [completion, setCompletion] = useState('all');
+  const [tag, setTag] = useState('all');
+  const [search, setSearch] = useState('');
+  // Ids matching the search, or null when not searching
+  const [searchMatches, setSearchMatches] = useState<Set<string> | null>(null);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [user]);
+
+  useEffect(() => {
+    const query = search.trim();
+    if (!query) {
+      setSearchMatches(null);
+      return;
+    }
+
+    // A newer search cancels this one, so a slow response can't replace newer results
+    const controller = new AbortController();
+    const timer = setTimeout(() => searchLessons(query, controller.signal), SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [search]);
+
+  const fetchCatalog = async () => {
+    try {
+      const [lessonsResult, tagsResult, progressResult, prerequisitesData] = await Promise.all([
+        supabase
+          .from('lessons')
+          .select('id, slug, title, description, language, difficulty, points, lesson_tags(tag_id)')
+          .eq('status', 'published')
+          .order('language')
+          .order('order_index'),
+        supabase.from('tags').select('id, slug, name').order('name'),
+        user
+          ? supabase.from('user_progress').select('lesson_id').eq('user_id', user.id)
+          : Promise.resolve({ data: [], error: null }),
+        fetchPrerequisites(),
+      ]);
+
+      if (lessonsResult.error) throw lessonsResult.error;
+      if (tagsResult.error) throw tagsResult.error;
+      if (progressResult.error) throw progressResult.error;
+
+      setLessons(
+        (lessonsResult.data || []).map(({ lesson_tags, ...lesson }) => ({
+          ...lesson,
+          tagIds: lesson_tags.map((lessonTag) => lessonTag.tag_id),
+        }))
+      );
+      setTags(tagsResult.data || []);
+      setCompletedIds(new Set((progressResult.data || []).map((progress) => progress.lesson_id)));
+      setPrerequisites(prerequisitesData);
+    } catch (error) {
+      console.error('Error fetching catalog:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const searchLessons = async (query: string, signal: AbortSignal) => {
+    const { data, error } = await supabase
+      .from('lessons')
+      .select('id')
+      .eq('status', 'published')
+      .textSearch('search', query, { type: 'websearch', config: 'english' })
+      .abortSignal(signal);
+
+    if (signal.aborted) return;
+    if (error) {
+      console.error('Error searching lessons:', error);
+      return;
+    }
+    setSearchMatches(new Set((data || []).map((lesson) => lesson.id)));
+  };
+
+  const visibleLessons = lessons.filter(
+    (lesson) =>
+      (language === 'all' || lesson.language === language) &&
+      (difficulty === 'all' || lesson.difficulty === difficulty) &&
+      (completion === 'all' || completedIds.has(lesson.id) === (completion === 'completed')) &&
+      (tag === 'all' || lesson.tagIds.includes(tag)) &&
+      (!searchMatches || searchMatches.has(lesson.id))
+  );
+
+  const tagNames = new Map(tags.map((t) => [t.id, t.name]));
+  const completedCount = lessons.filter((lesson) => completedIds.has(lesson.id)).length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-2 text-muted-foreground">Loading lessons...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Lessons</h1>
+        <p className="text-muted-foreground">
+          {completedCount} of {lessons.length} challenges completed
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap items-center gap-4">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder="Search titles and descriptions"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {languages.map((lang) => (
+                <SelectItem key={lang.value} value={lang.value}>
+                  {lang.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={difficulty} onValueChange={setDifficulty}>
+            <SelectTrigger className="w-36 capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All difficulties</SelectItem>
+              {difficulties.map((level) => (
+                <SelectItem key={level} value={level} className="capitalize">
+                  {level}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={completion} onValueChange={setCompletion}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All lessons</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="not_completed">Not completed</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={tag} onValueChange={setTag}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All topics</SelectItem>
+              {tags.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {visibleLessons.length === 0 ? (
+        <p className="text-center text-muted-foreground py-12">No lessons match these filters.</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {visibleLessons.map((lesson) => {
+            const lockedBy = missingPrerequisites(lesson.id, prerequisites, completedIds);
+
+            return (
+              <Link key={lesson.id} to={`/challenge/${lesson.language}/${lesson.slug}`}>
+                <Card className="h-full hover:border-primary transition-colors">
+                  <CardHeader>
+                    <CardTitle className="flex items-start justify-between gap-2 text-lg">
+                      <span>{lesson.title}</span>
+                      {completedIds.has(lesson.id) ? (
+                        <CheckCircle2 className="h-5 w-5 shrink-0 text-green-500" />
+                      ) : lockedBy.length > 0 ? (
+                        <Lock className="h-5 w-5 shrink-0 text-muted-foreground" />
+                      ) : (
+                        <Circle className="h-5 w-5 shrink-0 text-muted-foreground" />
+                      )}
+                    </CardTitle>
+                    <CardDescription className="line-clamp-2">{lesson.description}</CardDescription>
+                    {lockedBy.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Unlocks after {lockedBy.map((prerequisite) => prerequisite.title).join(', ')}
+                      </p>
+                    )}
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className="capitalize">
+                      {languages.find((lang) => lang.value === lesson.language)?.label ?? lesson.language}
+                    </Badge>
+                    <Badge
+                      className={`text-white capitalize ${
+                        difficultyColors[lesson.difficulty as keyof typeof difficultyColors]
+                      }`}
+                    >
+                      {lesson.difficulty}
+                    </Badge>
+                    {lesson.tagIds.map((tagId) => (
+                      <Badge key={tagId} variant="secondary">
+                        {tagNames.get(tagId)}
+                      </Badge>
+                    ))}
+                    <span className="ml-auto text-sm text-muted-foreground">{lesson.points} pts</span>
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
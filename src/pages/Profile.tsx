@@ -7,7 +7,9 @@ import { Label } from '@/components/ui/label';
 import { useAuth } from '@/hooks/use-auth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Trophy, BookOpen, Target, Flame, Edit2, Save, Award, Code2 } from 'lucide-react';
+import type { Database } from '@/integrations/supabase/types';
+import { Trophy, BookOpen, Target, Flame, Edit2, Save, Award, Code2, Radar as RadarIcon } from 'lucide-react';
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, ResponsiveContainer, Tooltip } from 'recharts';
 
 interface ProfileData {
   username: string | null;
@@ -31,12 +33,15 @@ interface LanguageProgress {
   total: number;
 }
 
+type ConceptMastery = Database['public']['Functions']['concept_mastery']['Returns'][number];
+
 export default function Profile() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [profile, setProfile] = useState<ProfileData | null>(null);
   const [badges, setBadges] = useState<Badge[]>([]);
   const [languageProgress, setLanguageProgress] = useState<LanguageProgress[]>([]);
+  const [conceptMastery, setConceptMastery] = useState<ConceptMastery[]>([]);
   const [loading, setLoading] = useState(true);
   const [editing, setEditing] = useState(false);
   const [username, setUsername] = useState('');
@@ -46,6 +51,7 @@ export default function Profile() {
       fetchProfileData();
       fetchBadges();
       fetchLanguageProgress();
+      fetchConceptMastery();
     }
   }, [user]);
 
@@ -104,7 +110,8 @@ export default function Profile() {
       // Get all lessons grouped by language
       const { data: allLessons } = await supabase
         .from('lessons')
-        .select('language');
+        .select('language')
+        .eq('status', 'published');
 
       // Get user's completed lessons
       const { data: completedLessons } = await supabase
@@ -147,6 +154,18 @@ export default function Profile() {
     }
   };
 
+  const fetchConceptMastery = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase.rpc('concept_mastery', { _user_id: user.id });
+
+    if (error) {
+      console.error('Error fetching concept mastery:', error);
+      return;
+    }
+    setConceptMastery(data || []);
+  };
+
   const saveProfile = async () => {
     if (!user) return;
 
@@ -186,6 +205,12 @@ export default function Profile() {
     );
   }
 
+  // Only concepts the learner has started say anything about what to practice
+  const weakestConcepts = conceptMastery
+    .filter((concept) => concept.completed_lessons > 0 && concept.mastery < 100)
+    .sort((a, b) => a.mastery - b.mastery)
+    .slice(0, 3);
+
   const memberSince = profile?.created_at 
     ? new Date(profile.created_at).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
     : 'Recently';
@@ -344,6 +369,54 @@ export default function Profile() {
         </CardContent>
       </Card>
 
+      {/* Concept Mastery */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <RadarIcon className="h-5 w-5" />
+            Concept Mastery
+          </CardTitle>
+          <CardDescription>
+            How well you handle each kind of bug, across all languages. Extra attempts and hints lower your score.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {conceptMastery.some((concept) => concept.completed_lessons > 0) ? (
+            <div className="space-y-4">
+              <ResponsiveContainer width="100%" height={350}>
+                <RadarChart data={conceptMastery} outerRadius="75%">
+                  <PolarGrid />
+                  <PolarAngleAxis dataKey="name" tick={{ fontSize: 12 }} />
+                  <PolarRadiusAxis domain={[0, 100]} tickCount={5} angle={90} />
+                  <Tooltip
+                    formatter={(value: number, _name, item) => [
+                      `${value}% (${item.payload.completed_lessons} / ${item.payload.total_lessons} lessons)`,
+                      'Mastery',
+                    ]}
+                  />
+                  <Radar
+                    dataKey="mastery"
+                    stroke="hsl(var(--primary))"
+                    fill="hsl(var(--primary))"
+                    fillOpacity={0.3}
+                  />
+                </RadarChart>
+              </ResponsiveContainer>
+              {weakestConcepts.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Worth practicing: {weakestConcepts.map((concept) => `${concept.name} (${concept.mastery}%)`).join(', ')}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <RadarIcon className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>Solve a few challenges to see your strengths and weaknesses.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Badges & Achievements */}
       <Card>
         <CardHeader>
@@ -0,0 +1,399 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CodeEditor } from '@/components/code-editor';
+import { HintPanel } from '@/components/hint-panel';
+import { Terminal } from '@/components/terminal';
+import { TestResults } from '@/components/test-results';
+import { useAuth } from '@/hooks/use-auth';
+import { useLessonWorkspace } from '@/hooks/use-lesson-workspace';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { Comparator } from '@/lib/comparators';
+import { getRunner, type ProgrammingLanguage } from '@/lib/execution';
+import type { ReviewVerdict } from '@/lib/grading';
+import { scrambleStarterCode, type ScrambledCode } from '@/lib/scramble';
+import { CalendarCheck, CheckCircle, Flag, Play, Shuffle } from 'lucide-react';
+
+interface ReviewLesson {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  language: ProgrammingLanguage;
+  difficulty: string;
+  starter_code: string;
+  hint_count: number;
+  comparator: Comparator;
+  comparator_options: Json;
+}
+
+interface ReviewItem {
+  lesson: ReviewLesson;
+  repetitions: number;
+  interval_days: number;
+  due_at: string;
+}
+
+const ADVANCE_DELAY_MS = 1500;
+
+const difficultyColors = {
+  easy: 'bg-green-500',
+  medium: 'bg-yellow-500',
+  hard: 'bg-orange-500',
+  expert: 'bg-red-500',
+};
+
+export default function Review() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+  const [nextDueAt, setNextDueAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [scrambled, setScrambled] = useState<ScrambledCode | null>(null);
+  const [reviewed, setReviewed] = useState(0);
+
+  const current = queue[0] ?? null;
+  const lesson = current?.lesson ?? null;
+  const {
+    code,
+    setCode,
+    output,
+    stdin,
+    setStdin,
+    executionResult,
+    testCases,
+    gradeReport,
+    outputDiff,
+    focusLocation,
+    setFocusLocation,
+    revealedHints,
+    targetedHints,
+    attempts,
+    setAttempts,
+    isRunning,
+    setIsRunning,
+    waitingForInput,
+    submitInput,
+    runCode,
+    revealNextHint,
+    ...workspace
+  } = useLessonWorkspace(lesson, { userId: user?.id, review: true, renames: scrambled?.renames });
+
+  useEffect(() => {
+    if (user) {
+      fetchQueue();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (current) {
+      // Same seed for the same repetition, so reloading shows the same variant
+      const variant = scrambleStarterCode(
+        current.lesson.starter_code,
+        current.lesson.language,
+        `${current.lesson.id}:${current.repetitions}`
+      );
+      setScrambled(variant);
+      setCode(variant.code);
+      startReview(current);
+    }
+  }, [current?.lesson.id]);
+
+  const fetchQueue = async () => {
+    try {
+      const now = new Date().toISOString();
+      const [dueResult, upcomingResult] = await Promise.all([
+        supabase
+          .from('review_items')
+          .select(
+            'repetitions, interval_days, due_at, lessons(id, slug, title, description, language, difficulty, starter_code, hint_count, comparator, comparator_options, status)'
+          )
+          .eq('user_id', user!.id)
+          .lte('due_at', now)
+          .order('due_at'),
+        supabase
+          .from('review_items')
+          .select('due_at')
+          .eq('user_id', user!.id)
+          .gt('due_at', now)
+          .order('due_at')
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (dueResult.error) throw dueResult.error;
+      if (upcomingResult.error) throw upcomingResult.error;
+
+      setQueue(
+        (dueResult.data || [])
+          .filter((item) => item.lessons?.status === 'published')
+          .map(({ lessons: { status, ...reviewLesson }, repetitions, interval_days, due_at }) => ({
+            lesson: reviewLesson,
+            repetitions,
+            interval_days,
+            due_at,
+          }))
+      );
+      setNextDueAt(upcomingResult.data?.due_at ?? null);
+    } catch (error) {
+      console.error('Error fetching review queue:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your reviews',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Starts the review's clock on the server, and picks up checks made before a refresh
+  const startReview = async (item: ReviewItem) => {
+    const [{ error: startError }, { count, error: attemptsError }] = await Promise.all([
+      supabase.rpc('start_review', { _lesson_id: item.lesson.id }),
+      supabase
+        .from('submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user!.id)
+        .eq('lesson_id', item.lesson.id)
+        .eq('kind', 'review')
+        .gte('created_at', item.due_at),
+    ]);
+
+    if (startError) {
+      console.error('Error starting review:', startError);
+    }
+    if (attemptsError) {
+      console.error('Error fetching attempts:', attemptsError);
+    }
+    setAttempts(count ?? 0);
+  };
+
+  // The server counts the review's checks and hints, and times it, itself
+  const submitReview = async (body: { code: string } | { giveUp: true }): Promise<ReviewVerdict | null> => {
+    const { data, error } = await supabase.functions.invoke<ReviewVerdict>('submit-review', {
+      body: { lessonId: lesson.id, ...body },
+    });
+
+    if (error) {
+      console.error('Error submitting review:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not record your review. Please try again.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+    return data;
+  };
+
+  const advance = () => {
+    setReviewed((count) => count + 1);
+    setQueue((items) => items.slice(1));
+  };
+
+  const checkSolution = async () => {
+    const outcome = await workspace.checkSolution(() => submitReview({ code }));
+    if (!outcome) return;
+
+    const { verdict, attempt } = outcome;
+    if (verdict?.review) {
+      toast({
+        title: '🧠 Still got it!',
+        description: `Next review in ${verdict.review.intervalDays} day${verdict.review.intervalDays === 1 ? '' : 's'}.`,
+      });
+      setTimeout(advance, ADVANCE_DELAY_MS);
+      return;
+    }
+
+    toast({
+      title: 'Not quite right',
+      description: `Attempt ${attempt}. Keep trying, or come back to it tomorrow.`,
+      variant: 'destructive',
+    });
+  };
+
+  const giveUp = async () => {
+    setIsRunning(true);
+    const verdict = await submitReview({ giveUp: true });
+    setIsRunning(false);
+
+    if (verdict) {
+      toast({
+        title: 'Scheduled for tomorrow',
+        description: `${lesson.title} will come back in your next review.`,
+      });
+      advance();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-2 text-muted-foreground">Loading reviews...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!lesson) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="text-center space-y-4">
+          <CalendarCheck className="h-12 w-12 text-muted-foreground mx-auto" />
+          <div>
+            <h2 className="text-2xl font-bold">{reviewed > 0 ? 'Reviews done for today' : 'Nothing to review'}</h2>
+            <p className="text-muted-foreground">
+              {nextDueAt
+                ? `Your next review is due ${new Date(nextDueAt).toLocaleString()}.`
+                : 'Solve a challenge and it will come back here for review.'}
+            </p>
+          </div>
+          <Button asChild>
+            <Link to="/learn">Browse Lessons</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Review</h1>
+          <p className="text-muted-foreground">Fix a bug you have solved before, from memory</p>
+        </div>
+        <Badge variant="outline" className="text-sm">
+          {queue.length} due
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="flex flex-col">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                {lesson.title}
+                <Badge
+                  className={`text-white ${difficultyColors[lesson.difficulty as keyof typeof difficultyColors]}`}
+                >
+                  {lesson.difficulty}
+                </Badge>
+              </CardTitle>
+              {attempts > 0 && (
+                <Badge variant="outline" className="text-sm">
+                  Attempts: {attempts}
+                </Badge>
+              )}
+            </div>
+            <CardDescription>{lesson.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="flex-1 space-y-4">
+            {scrambled && scrambled.renames.size > 0 && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Shuffle className="h-4 w-4" />
+                Names have been shuffled since you last saw this bug.
+              </p>
+            )}
+            <div>
+              <h4 className="font-medium mb-2">Expected Output:</h4>
+              <div className="space-y-2">
+                {testCases.map((testCase) => (
+                  <pre key={testCase.id} className="bg-muted p-3 rounded-md text-sm code-font">
+                    {testCase.expected_output}
+                  </pre>
+                ))}
+              </div>
+            </div>
+
+            <HintPanel
+              count={lesson.hint_count}
+              revealed={revealedHints}
+              onReveal={revealNextHint}
+              targetedHints={targetedHints}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col gap-4">
+          <Card>
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">Code Editor</CardTitle>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={giveUp} disabled={isRunning}>
+                    <Flag className="h-4 w-4 mr-2" />
+                    Review Tomorrow
+                  </Button>
+                  <Button onClick={runCode} disabled={isRunning}>
+                    <Play className="h-4 w-4 mr-2" />
+                    {isRunning ? 'Running...' : 'Run Code'}
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <CodeEditor
+                language={lesson.language}
+                value={code}
+                onChange={(value) => setCode(value || '')}
+                height="300px"
+                diagnostics={executionResult?.diagnostics}
+                focusLocation={focusLocation}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <CardTitle className="text-lg">Output</CardTitle>
+                  {executionResult && (
+                    <Badge
+                      variant={executionResult.status === 'success' ? 'outline' : 'destructive'}
+                      className="text-xs"
+                    >
+                      exit {executionResult.exitCode} · {executionResult.durationMs} ms
+                    </Badge>
+                  )}
+                </div>
+                <Button onClick={checkSolution} disabled={isRunning}>
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Check Solution
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Terminal
+                output={output}
+                isLoading={isRunning}
+                height="200px"
+                diff={outputDiff}
+                language={lesson.language}
+                onLocationClick={setFocusLocation}
+                waitingForInput={waitingForInput}
+                onInput={submitInput}
+                stdin={stdin}
+                onStdinChange={setStdin}
+                interactive={getRunner(lesson.language).interactive}
+              />
+              {gradeReport && (
+                <div className="mt-4">
+                  <TestResults report={gradeReport} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+export type Comparator =
+  | 'exact'
+  | 'ignore_whitespace'
+  | 'numeric_tolerance'
+  | 'regex'
+  | 'unordered_lines'
+  | 'json_equal';
+
+export interface ComparatorOptions {
+  /** Absolute tolerance for numeric_tolerance. */
+  tolerance?: number;
+  /** RegExp flags for regex. */
+  flags?: string;
+}
+
+const DEFAULT_TOLERANCE = 1e-6;
+
+const lines = (text: string) => text.replace(/\r\n/g, '\n').trim().split('\n').map((line) => line.trimEnd());
+
+const isNumber = (token: string) => token.trim() !== '' && !Number.isNaN(Number(token));
+
+const numbersMatch = (actual: string, expected: string, tolerance: number) => {
+  const actualTokens = actual.trim().split(/\s+/);
+  const expectedTokens = expected.trim().split(/\s+/);
+
+  return (
+    actualTokens.length === expectedTokens.length &&
+    actualTokens.every((token, index) => {
+      const other = expectedTokens[index];
+      return isNumber(token) && isNumber(other)
+        ? Math.abs(Number(token) - Number(other)) <= tolerance
+        : token === other;
+    })
+  );
+};
+
+const regexMatches = (actual: string, pattern: string, flags = '') => {
+  try {
+    return new RegExp(`^(?:${pattern.trim()})$`, flags).test(actual.trim());
+  } catch {
+    return false;
+  }
+};
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+};
+
+const jsonMatches = (actual: string, expected: string) => {
+  try {
+    return deepEqual(JSON.parse(actual), JSON.parse(expected));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Compares program output to a test case's expectation using the lesson's comparator.
+ * Identical to src/lib/comparators.ts in the web app; keep the two in sync.
+ */
+export function outputsMatch(
+  actual: string,
+  expected: string,
+  comparator: Comparator = 'exact',
+  options: ComparatorOptions = {}
+) {
+  switch (comparator) {
+    case 'ignore_whitespace':
+      return actual.replace(/\s+/g, ' ').trim() === expected.replace(/\s+/g, ' ').trim();
+    case 'numeric_tolerance':
+      return numbersMatch(actual, expected, options.tolerance ?? DEFAULT_TOLERANCE);
+    case 'regex':
+      return regexMatches(actual, expected, options.flags);
+    case 'unordered_lines':
+      return lines(actual).sort().join('\n') === lines(expected).sort().join('\n');
+    case 'json_equal':
+      return jsonMatches(actual, expected);
+    default:
+      return lines(actual).join('\n') === lines(expected).join('\n');
+  }
+}
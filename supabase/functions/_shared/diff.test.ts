@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { countChangedLines } from './diff.ts';
+
+describe('countChangedLines', () => {
+  it('counts nothing when the code is the same', () => {
+    expect(countChangedLines('a\nb\n', 'a\r\nb')).toBe(0);
+  });
+
+  it('counts a line edited in place once', () => {
+    expect(countChangedLines('a\nb\nc', 'a\nB\nc')).toBe(1);
+  });
+
+  it('counts the larger side of each run of changes', () => {
+    expect(countChangedLines('a\nb\nc\nd', 'a\nx\ny\nz\nd')).toBe(3);
+    expect(countChangedLines('a\nb\nc\nd', 'a\nd')).toBe(2);
+  });
+
+  it('counts separate runs separately', () => {
+    expect(countChangedLines('a\nb\nc\nd\ne', 'A\nb\nc\nd\nE')).toBe(2);
+  });
+
+  it('counts lines added at the end', () => {
+    expect(countChangedLines('a', 'a\nb\nc')).toBe(2);
+  });
+});
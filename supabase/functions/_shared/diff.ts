@@ -0,0 +1,47 @@
+const toLines = (text: string) => text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+
+/**
+ * Counts the lines a fix changed. Each run of removed and added lines counts as
+ * the larger of the two, so editing one line in place is one changed line.
+ */
+export function countChangedLines(before: string, after: string): number {
+  const a = toLines(before);
+  const b = toLines(after);
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let changed = 0;
+  let removed = 0;
+  let added = 0;
+  const endHunk = () => {
+    changed += Math.max(removed, added);
+    removed = 0;
+    added = 0;
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      endHunk();
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      removed++;
+      i++;
+    } else {
+      added++;
+      j++;
+    }
+  }
+  removed += a.length - i;
+  added += b.length - j;
+  endHunk();
+
+  return changed;
+}
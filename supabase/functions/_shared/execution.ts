@@ -0,0 +1,147 @@
+export const LANGUAGES = ['python', 'javascript', 'java', 'cpp', 'go', 'rust'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export type ExecutionStatus =
+  | 'success'
+  | 'compile_error'
+  | 'runtime_error'
+  | 'timeout'
+  | 'memory_limit_exceeded'
+  | 'output_limit_exceeded'
+  | 'internal_error';
+
+export interface ExecutionRequest {
+  language: Language;
+  code: string;
+  stdin: string;
+  timeoutMs: number;
+  memoryLimitMb: number;
+}
+
+export interface ExecutionResult {
+  status: ExecutionStatus;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  durationMs: number;
+  memoryKb?: number;
+}
+
+export interface ExecutionBackend {
+  execute: (request: ExecutionRequest) => Promise<ExecutionResult>;
+}
+
+// Language ids from Judge0 CE's /languages endpoint.
+const JUDGE0_LANGUAGE_IDS: Record<Language, number> = {
+  python: 71,
+  javascript: 63,
+  java: 62,
+  cpp: 54,
+  go: 60,
+  rust: 73,
+};
+
+const encode = (value: string) => btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+
+const decode = (value: string | null) =>
+  value ? new TextDecoder().decode(Uint8Array.from(atob(value), (char) => char.charCodeAt(0))) : '';
+
+// See https://ce.judge0.com/#statuses-and-languages-status-get
+const judge0Status = (id: number, message: string | null): ExecutionStatus => {
+  if (id === 3) return 'success';
+  if (id === 5) return 'timeout';
+  if (id === 6) return 'compile_error';
+  if (id >= 7 && id <= 12) {
+    return message?.toLowerCase().includes('memory') ? 'memory_limit_exceeded' : 'runtime_error';
+  }
+  return 'internal_error';
+};
+
+/**
+ * Forwards submissions to a self-hosted Judge0 instance and normalises its verdicts.
+ */
+export function createJudge0Backend(baseUrl: string, token?: string): ExecutionBackend {
+  return {
+    async execute({ language, code, stdin, timeoutMs, memoryLimitMb }) {
+      const response = await fetch(`${baseUrl}/submissions?base64_encoded=true&wait=true`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'X-Auth-Token': token } : {}),
+        },
+        body: JSON.stringify({
+          language_id: JUDGE0_LANGUAGE_IDS[language],
+          source_code: encode(code),
+          stdin: encode(stdin),
+          cpu_time_limit: timeoutMs / 1000,
+          wall_time_limit: (timeoutMs * 2) / 1000,
+          memory_limit: memoryLimitMb * 1024,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Judge0 responded with ${response.status}`);
+      }
+
+      const submission = await response.json();
+      const status = judge0Status(submission.status?.id, submission.message);
+
+      return {
+        status,
+        stdout: decode(submission.stdout),
+        stderr: status === 'compile_error' ? decode(submission.compile_output) : decode(submission.stderr),
+        exitCode: submission.exit_code ?? (status === 'success' ? 0 : 1),
+        durationMs: Math.round(Number(submission.time ?? 0) * 1000),
+        memoryKb: submission.memory ?? undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Forwards submissions to a local container runner that already speaks this
+ * function's request and result format at `POST /execute`.
+ */
+export function createContainerBackend(baseUrl: string, token?: string): ExecutionBackend {
+  return {
+    async execute(request) {
+      const response = await fetch(`${baseUrl}/execute`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Container runner responded with ${response.status}`);
+      }
+      return await response.json();
+    },
+  };
+}
+
+/**
+ * Runs nothing: echoes stdin back as stdout. Used in tests and local development
+ * where no execution service is available.
+ */
+export function createStubBackend(): ExecutionBackend {
+  return {
+    async execute({ stdin }) {
+      return { status: 'success', stdout: stdin, stderr: '', exitCode: 0, durationMs: 0, memoryKb: 0 };
+    },
+  };
+}
+
+// CODE_RUNNER_BACKEND selects the service: "judge0" (default), "container" or "stub".
+export function createBackendFromEnv(): ExecutionBackend {
+  const backend = Deno.env.get('CODE_RUNNER_BACKEND') ?? 'judge0';
+  const url = Deno.env.get('CODE_RUNNER_URL');
+  const token = Deno.env.get('CODE_RUNNER_TOKEN');
+
+  if (backend === 'stub') return createStubBackend();
+  if (!url) throw new Error('CODE_RUNNER_URL is not configured');
+  return backend === 'container' ? createContainerBackend(url, token) : createJudge0Backend(url, token);
+}
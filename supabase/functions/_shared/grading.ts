@@ -0,0 +1,83 @@
+import type { ExecutionBackend, ExecutionStatus, Language } from './execution.ts';
+import { outputsMatch, type Comparator, type ComparatorOptions } from './comparators.ts';
+
+export interface TestCase {
+  id: string;
+  name: string | null;
+  stdin: string;
+  expected_output: string;
+  is_hidden: boolean;
+  weight: number;
+}
+
+export interface TestCaseResult {
+  id: string;
+  name: string;
+  hidden: boolean;
+  passed: boolean;
+  status: ExecutionStatus;
+  stdin?: string;
+  stdout?: string;
+  expected?: string;
+}
+
+export interface GradeReport {
+  passed: boolean;
+  score: number;
+  maxScore: number;
+  cases: TestCaseResult[];
+}
+
+/**
+ * Runs the code against every test case. Hidden cases report only their verdict.
+ */
+export async function gradeSubmission(
+  backend: ExecutionBackend,
+  language: Language,
+  code: string,
+  testCases: TestCase[],
+  comparator: Comparator = 'exact',
+  comparatorOptions: ComparatorOptions = {}
+): Promise<GradeReport> {
+  const cases: TestCaseResult[] = [];
+  let score = 0;
+  let maxScore = 0;
+
+  for (const [index, testCase] of testCases.entries()) {
+    const result = await backend.execute({
+      language,
+      code,
+      stdin: testCase.stdin,
+      timeoutMs: 5000,
+      memoryLimitMb: 256,
+    });
+    const passed =
+      result.status === 'success' &&
+      outputsMatch(result.stdout, testCase.expected_output, comparator, comparatorOptions);
+
+    maxScore += testCase.weight;
+    if (passed) score += testCase.weight;
+
+    cases.push({
+      id: testCase.id,
+      name: testCase.is_hidden ? `Hidden test ${index + 1}` : testCase.name || `Test ${index + 1}`,
+      hidden: testCase.is_hidden,
+      passed,
+      status: result.status,
+      ...(testCase.is_hidden
+        ? {}
+        : {
+            stdin: testCase.stdin,
+            stdout: result.status === 'success' ? result.stdout : result.stdout + result.stderr,
+            expected: testCase.expected_output,
+          }),
+    });
+  }
+
+  return {
+    passed: cases.length > 0 && cases.every((result) => result.passed),
+    score,
+    maxScore,
+    cases,
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { scoreCompletion } from './scoring.ts';
+
+describe('scoreCompletion', () => {
+  it('awards the points for a first try at par', () => {
+    expect(scoreCompletion(100, 'easy', 1, 0, 120, false)).toEqual({
+      base: 100,
+      attemptPenalty: 0,
+      hintPenalty: 0,
+      speedBonus: 0,
+      minimalFixBonus: 0,
+      total: 100,
+    });
+  });
+
+  it('takes a tenth of the points for each extra attempt, up to half', () => {
+    expect(scoreCompletion(100, 'easy', 3, 0, 600, false)).toMatchObject({ attemptPenalty: 20, total: 80 });
+    expect(scoreCompletion(100, 'easy', 20, 0, 600, false)).toMatchObject({ attemptPenalty: 50, total: 50 });
+  });
+
+  it('shrinks the speed bonus linearly to zero at par', () => {
+    expect(scoreCompletion(100, 'medium', 1, 0, 0, false).speedBonus).toBe(50);
+    expect(scoreCompletion(100, 'medium', 1, 0, 150, false).speedBonus).toBe(25);
+    expect(scoreCompletion(100, 'medium', 1, 0, 300, false).speedBonus).toBe(0);
+    expect(scoreCompletion(100, 'hard', 1, 0, 300, false).speedBonus).toBe(25);
+  });
+
+  it('adds the minimal fix bonus and takes off the hint penalty', () => {
+    expect(scoreCompletion(100, 'easy', 1, 15, 120, true)).toMatchObject({
+      hintPenalty: 15,
+      minimalFixBonus: 10,
+      total: 95,
+    });
+  });
+
+  it('keeps at least a quarter of the points', () => {
+    expect(scoreCompletion(100, 'expert', 10, 60, 900, false).total).toBe(25);
+  });
+});
@@ -0,0 +1,56 @@
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+export interface ScoreBreakdown {
+  base: number;
+  attemptPenalty: number;
+  hintPenalty: number;
+  speedBonus: number;
+  minimalFixBonus: number;
+  total: number;
+}
+
+// Solving faster than par earns a bonus that shrinks linearly to zero at par.
+const PAR_SECONDS: Record<Difficulty, number> = {
+  easy: 120,
+  medium: 300,
+  hard: 600,
+  expert: 900,
+};
+
+const ATTEMPT_PENALTY = 0.1;
+const MAX_ATTEMPT_PENALTY = 0.5;
+const MAX_SPEED_BONUS = 0.5;
+const MINIMAL_FIX_BONUS = 0.1;
+const MIN_SCORE = 0.25;
+
+/**
+ * Scores a first completion. Extra attempts cost a share of the lesson's points and
+ * revealed hints cost what they were priced at. A fast solve earns a bonus, as does
+ * a minimal fix that changes no more lines than the reference solution, and any
+ * solve keeps at least a quarter of the points.
+ */
+export function scoreCompletion(
+  points: number,
+  difficulty: Difficulty,
+  attempts: number,
+  hintPenalty: number,
+  timeTakenSeconds: number,
+  minimalFix: boolean
+): ScoreBreakdown {
+  const attemptPenalty = Math.round(points * Math.min((attempts - 1) * ATTEMPT_PENALTY, MAX_ATTEMPT_PENALTY));
+  const par = PAR_SECONDS[difficulty];
+  const speedBonus = timeTakenSeconds < par ? Math.round(points * MAX_SPEED_BONUS * (1 - timeTakenSeconds / par)) : 0;
+  const minimalFixBonus = minimalFix ? Math.round(points * MINIMAL_FIX_BONUS) : 0;
+
+  return {
+    base: points,
+    attemptPenalty,
+    hintPenalty,
+    speedBonus,
+    minimalFixBonus,
+    total: Math.max(
+      Math.round(points * MIN_SCORE),
+      points - attemptPenalty - hintPenalty + speedBonus + minimalFixBonus
+    ),
+  };
+}
@@ -0,0 +1,41 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createBackendFromEnv, LANGUAGES, type ExecutionRequest, type Language } from '../_shared/execution.ts';
+import { corsHeaders, json } from '../_shared/http.ts';
+
+const MAX_CODE_LENGTH = 64 * 1024;
+const MAX_TIMEOUT_MS = 10000;
+const MAX_MEMORY_LIMIT_MB = 512;
+
+const parseRequest = (body: Record<string, unknown>): ExecutionRequest | null => {
+  const { language, code, stdin = '', timeoutMs = 5000, memoryLimitMb = 256 } = body;
+
+  if (!LANGUAGES.includes(language as Language)) return null;
+  if (typeof code !== 'string' || code.length > MAX_CODE_LENGTH) return null;
+  if (typeof stdin !== 'string') return null;
+
+  return {
+    language: language as Language,
+    code,
+    stdin,
+    timeoutMs: Math.min(Number(timeoutMs) || 5000, MAX_TIMEOUT_MS),
+    memoryLimitMb: Math.min(Number(memoryLimitMb) || 256, MAX_MEMORY_LIMIT_MB),
+  };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request = parseRequest(await req.json());
+    if (!request) {
+      return json({ error: 'Invalid execution request' }, 400);
+    }
+
+    return json(await createBackendFromEnv().execute(request));
+  } catch (error) {
+    console.error('execute-code failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Execution failed' }, 500);
+  }
+});
@@ -0,0 +1,188 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { countChangedLines } from '../_shared/diff.ts';
+import { createBackendFromEnv } from '../_shared/execution.ts';
+import { gradeSubmission } from '../_shared/grading.ts';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { scoreCompletion } from '../_shared/scoring.ts';
+
+const MAX_CODE_LENGTH = 64 * 1024;
+const MAX_TIME_TAKEN_SECONDS = 24 * 60 * 60;
+// Same as record_lesson_activity: a longer gap since the last heartbeat means the learner was away
+const MAX_ACTIVITY_GAP_SECONDS = 30;
+
+const clamp = (value: unknown, min: number, max: number) => Math.min(Math.max(Math.round(Number(value) || 0), min), max);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { lessonId, code } = await req.json();
+    if (typeof lessonId !== 'string' || typeof code !== 'string') {
+      return json({ error: 'lessonId and code are required' }, 400);
+    }
+    if (code.length > MAX_CODE_LENGTH) {
+      return json({ error: 'code is too long' }, 400);
+    }
+
+    // The service role is needed to read hidden test cases and to award points.
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return json({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: lesson, error: lessonError } = await supabase
+      .from('lessons')
+      .select('id, language, difficulty, points, starter_code, comparator, comparator_options')
+      .eq('id', lessonId)
+      .eq('status', 'published')
+      .single();
+
+    if (lessonError || !lesson) {
+      return json({ error: 'Lesson not found' }, 404);
+    }
+
+    const { data: missing, error: prerequisitesError } = await supabase.rpc('missing_prerequisites', {
+      _user_id: user.id,
+      _lesson_id: lesson.id,
+    });
+
+    if (prerequisitesError) throw prerequisitesError;
+    if (missing && missing.length > 0) {
+      return json({ error: 'Lesson is locked', missingPrerequisites: missing }, 403);
+    }
+
+    const { data: testCases, error: testCasesError } = await supabase
+      .from('lesson_test_cases')
+      .select('id, name, stdin, expected_output, is_hidden, weight')
+      .eq('lesson_id', lessonId)
+      .order('order_index');
+
+    if (testCasesError) throw testCasesError;
+
+    const startedAt = Date.now();
+    const report = await gradeSubmission(
+      createBackendFromEnv(),
+      lesson.language,
+      code,
+      testCases ?? [],
+      lesson.comparator,
+      lesson.comparator_options
+    );
+
+    // Every check graded here counts as an attempt, so the count survives a
+    // refresh and can't be understated by the client
+    const { error: submissionError } = await supabase.from('submissions').insert({
+      user_id: user.id,
+      lesson_id: lesson.id,
+      language: lesson.language,
+      kind: 'check',
+      code,
+      output: report.cases.map((result) => `${result.passed ? 'PASS' : 'FAIL'} ${result.name}`).join('\n'),
+      verdict: report.passed ? 'passed' : 'failed',
+      duration_ms: Date.now() - startedAt,
+    });
+
+    if (submissionError) throw submissionError;
+
+    if (!report.passed) {
+      return json({ ...report, awardedPoints: 0, scoreBreakdown: null, newBadges: [], fix: null });
+    }
+
+    // Once solved, the learner may compare their fix with the reference solution
+    const { data: solution, error: solutionError } = await supabase
+      .from('lesson_solutions')
+      .select('code')
+      .eq('lesson_id', lesson.id)
+      .maybeSingle();
+
+    if (solutionError) throw solutionError;
+
+    const referenceSolution = solution?.code.trim() ? solution.code : null;
+    const fix = {
+      linesChanged: countChangedLines(lesson.starter_code, code),
+      referenceLinesChanged: referenceSolution ? countChangedLines(lesson.starter_code, referenceSolution) : null,
+      referenceSolution,
+    };
+
+    const [
+      { count: checks, error: attemptsError },
+      { data: start, error: startError },
+      { data: hintReveals, error: hintsError },
+    ] = await Promise.all([
+      supabase
+        .from('submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('lesson_id', lesson.id)
+        .eq('kind', 'check'),
+      supabase
+        .from('lesson_starts')
+        .select('active_seconds, last_active_at')
+        .eq('user_id', user.id)
+        .eq('lesson_id', lesson.id)
+        .maybeSingle(),
+      // reveal_hint recorded what each hint cost when it was revealed
+      supabase.from('hint_reveals').select('cost').eq('user_id', user.id).eq('lesson_id', lesson.id),
+    ]);
+
+    if (attemptsError) throw attemptsError;
+    if (startError) throw startError;
+    if (hintsError) throw hintsError;
+
+    const attemptCount = Math.max(checks ?? 0, 1);
+    const hintCount = hintReveals?.length ?? 0;
+    // Solve time is the active time the page's heartbeats added up, plus the
+    // time since the last one. Without a recorded start there is no telling how
+    // long the solve took, so no speed bonus.
+    const sinceLastActive = start?.last_active_at ? (Date.now() - Date.parse(start.last_active_at)) / 1000 : Infinity;
+    const timeTakenSeconds = start
+      ? clamp(
+          start.active_seconds + (sinceLastActive <= MAX_ACTIVITY_GAP_SECONDS ? sinceLastActive : 0),
+          1,
+          MAX_TIME_TAKEN_SECONDS
+        )
+      : MAX_TIME_TAKEN_SECONDS;
+    const scoreBreakdown = scoreCompletion(
+      lesson.points ?? 0,
+      lesson.difficulty,
+      attemptCount,
+      (hintReveals ?? []).reduce((sum, reveal) => sum + reveal.cost, 0),
+      timeTakenSeconds,
+      fix.referenceLinesChanged !== null && fix.linesChanged <= fix.referenceLinesChanged
+    );
+
+    const { data: firstCompletion, error: awardError } = await supabase.rpc('complete_lesson', {
+      _user_id: user.id,
+      _lesson_id: lesson.id,
+      _attempts: attemptCount,
+      _hints_used: hintCount,
+      _time_taken: timeTakenSeconds,
+      _points: scoreBreakdown.total,
+    });
+
+    if (awardError) throw awardError;
+
+    const { data: newBadges, error: badgeError } = firstCompletion
+      ? await supabase.rpc('award_badges', { _user_id: user.id })
+      : { data: [], error: null };
+
+    if (badgeError) throw badgeError;
+
+    return json({
+      ...report,
+      awardedPoints: firstCompletion ? scoreBreakdown.total : 0,
+      scoreBreakdown: firstCompletion ? scoreBreakdown : null,
+      newBadges: (newBadges ?? []).map(({ id, name, description, icon }) => ({ id, name, description, icon })),
+      fix,
+    });
+  } catch (error) {
+    console.error('grade-submission failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Grading failed' }, 500);
+  }
+});
@@ -0,0 +1,100 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createBackendFromEnv } from '../_shared/execution.ts';
+import { gradeSubmission } from '../_shared/grading.ts';
+import { corsHeaders, json } from '../_shared/http.ts';
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { lessonId, status } = await req.json();
+    if (typeof lessonId !== 'string' || (status !== 'published' && status !== 'draft')) {
+      return json({ error: 'lessonId and a status of "published" or "draft" are required' }, 400);
+    }
+
+    // The service role is needed to read hidden test cases and to change the status.
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return json({ error: 'Not authenticated' }, 401);
+    }
+
+    const [{ data: isInstructor }, { data: isAdmin }] = await Promise.all([
+      supabase.rpc('has_role', { _user_id: user.id, _role: 'instructor' }),
+      supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' }),
+    ]);
+    if (!isInstructor && !isAdmin) {
+      return json({ error: 'Only instructors can publish lessons' }, 403);
+    }
+
+    const { data: lesson, error: lessonError } = await supabase
+      .from('lessons')
+      .select('id, language, starter_code, comparator, comparator_options')
+      .eq('id', lessonId)
+      .single();
+
+    if (lessonError || !lesson) {
+      return json({ error: 'Lesson not found' }, 404);
+    }
+
+    // Unpublishing needs no validation
+    if (status === 'draft') {
+      const { error } = await supabase.from('lessons').update({ status }).eq('id', lessonId);
+      if (error) throw error;
+      return json({ status, problems: [], solution: null, starter: null });
+    }
+
+    const [{ data: solution, error: solutionError }, { data: testCases, error: testCasesError }] = await Promise.all([
+      supabase.from('lesson_solutions').select('code').eq('lesson_id', lessonId).maybeSingle(),
+      supabase
+        .from('lesson_test_cases')
+        .select('id, name, stdin, expected_output, is_hidden, weight')
+        .eq('lesson_id', lessonId)
+        .order('order_index'),
+    ]);
+
+    if (solutionError) throw solutionError;
+    if (testCasesError) throw testCasesError;
+
+    const problems: string[] = [];
+    if (!solution?.code.trim()) problems.push('The lesson has no reference solution.');
+    if (!testCases?.length) problems.push('The lesson has no test cases.');
+    else if (testCases.every((testCase) => testCase.is_hidden)) {
+      problems.push('The lesson has no visible test cases, so learners cannot see what is expected.');
+    }
+    if (problems.length > 0) {
+      return json({ status: 'draft', problems, solution: null, starter: null });
+    }
+
+    // A publishable lesson is one where the fix works and the bug is actually a bug
+    const backend = createBackendFromEnv();
+    const grade = (code: string) =>
+      gradeSubmission(backend, lesson.language, code, testCases, lesson.comparator, lesson.comparator_options);
+
+    const solutionReport = await grade(solution.code);
+    const starterReport = await grade(lesson.starter_code);
+
+    if (!solutionReport.passed) problems.push('The reference solution does not pass every test case.');
+    if (starterReport.passed) problems.push('The starter code already passes every test case, so there is nothing to fix.');
+
+    if (problems.length === 0) {
+      const { error } = await supabase.from('lessons').update({ status }).eq('id', lessonId);
+      if (error) throw error;
+    }
+
+    return json({
+      status: problems.length === 0 ? 'published' : 'draft',
+      problems,
+      solution: solutionReport,
+      starter: starterReport,
+    });
+  } catch (error) {
+    console.error('publish-lesson failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Publishing failed' }, 500);
+  }
+});
@@ -0,0 +1,146 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createBackendFromEnv } from '../_shared/execution.ts';
+import { gradeSubmission } from '../_shared/grading.ts';
+import { corsHeaders, json } from '../_shared/http.ts';
+
+const MAX_CODE_LENGTH = 64 * 1024;
+const MAX_TIME_TAKEN_SECONDS = 24 * 60 * 60;
+
+const clamp = (value: unknown, min: number, max: number) => Math.min(Math.max(Math.round(Number(value) || 0), min), max);
+
+// Grades a spaced-repetition review and reschedules the lesson. Reviews never
+// award points; a learner who gives up is scheduled to see the lesson again tomorrow.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { lessonId, code, giveUp } = await req.json();
+    if (typeof lessonId !== 'string' || (!giveUp && typeof code !== 'string')) {
+      return json({ error: 'lessonId and code are required' }, 400);
+    }
+    if (!giveUp && code.length > MAX_CODE_LENGTH) {
+      return json({ error: 'code is too long' }, 400);
+    }
+
+    // The service role is needed to read hidden test cases and to record the review.
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return json({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: item, error: itemError } = await supabase
+      .from('review_items')
+      .select('due_at, started_at')
+      .eq('user_id', user.id)
+      .eq('lesson_id', lessonId)
+      .maybeSingle();
+
+    if (itemError) throw itemError;
+    if (!item) {
+      return json({ error: 'Lesson is not in your review queue' }, 404);
+    }
+    if (Date.parse(item.due_at) > Date.now()) {
+      return json({ error: 'Review is not due yet', dueAt: item.due_at }, 409);
+    }
+
+    // The review began when the lesson fell due, so only checks and hints since then count
+    const recordReview = async (passed: boolean) => {
+      const [{ count: checks, error: attemptsError }, { count: hintCount, error: hintsError }] = await Promise.all([
+        supabase
+          .from('submissions')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .eq('lesson_id', lessonId)
+          .eq('kind', 'review')
+          .gte('created_at', item.due_at),
+        supabase
+          .from('review_hint_reveals')
+          .select('hint_index', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .eq('lesson_id', lessonId)
+          .eq('due_at', item.due_at),
+      ]);
+
+      if (attemptsError) throw attemptsError;
+      if (hintsError) throw hintsError;
+
+      // start_review starts the clock when the learner opens the review; a
+      // start from an earlier review says nothing about this one
+      const reviewStartedAt = item.started_at ? Date.parse(item.started_at) : NaN;
+      const timeTakenSeconds =
+        reviewStartedAt >= Date.parse(item.due_at)
+          ? clamp((Date.now() - reviewStartedAt) / 1000, 1, MAX_TIME_TAKEN_SECONDS)
+          : null;
+
+      const { data, error } = await supabase.rpc('record_review', {
+        _user_id: user.id,
+        _lesson_id: lessonId,
+        _passed: passed,
+        _attempts: Math.max(checks ?? 0, 1),
+        _hints_used: hintCount ?? 0,
+        _time_taken: timeTakenSeconds,
+      });
+      if (error) throw error;
+      return { intervalDays: data.interval_days, dueAt: data.due_at };
+    };
+
+    if (giveUp) {
+      return json({ passed: false, score: 0, maxScore: 0, cases: [], review: await recordReview(false) });
+    }
+
+    const { data: lesson, error: lessonError } = await supabase
+      .from('lessons')
+      .select('id, language, comparator, comparator_options')
+      .eq('id', lessonId)
+      .eq('status', 'published')
+      .single();
+
+    if (lessonError || !lesson) {
+      return json({ error: 'Lesson not found' }, 404);
+    }
+
+    const { data: testCases, error: testCasesError } = await supabase
+      .from('lesson_test_cases')
+      .select('id, name, stdin, expected_output, is_hidden, weight')
+      .eq('lesson_id', lessonId)
+      .order('order_index');
+
+    if (testCasesError) throw testCasesError;
+
+    const startedAt = Date.now();
+    const report = await gradeSubmission(
+      createBackendFromEnv(),
+      lesson.language,
+      code,
+      testCases ?? [],
+      lesson.comparator,
+      lesson.comparator_options
+    );
+
+    // Every check graded here counts as an attempt of the review
+    const { error: submissionError } = await supabase.from('submissions').insert({
+      user_id: user.id,
+      lesson_id: lesson.id,
+      language: lesson.language,
+      kind: 'review',
+      code,
+      output: report.cases.map((result) => `${result.passed ? 'PASS' : 'FAIL'} ${result.name}`).join('\n'),
+      verdict: report.passed ? 'passed' : 'failed',
+      duration_ms: Date.now() - startedAt,
+    });
+
+    if (submissionError) throw submissionError;
+
+    // Failed checks only count as extra attempts; the review is recorded once it passes
+    return json({ ...report, review: report.passed ? await recordReview(true) : null });
+  } catch (error) {
+    console.error('submit-review failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Review failed' }, 500);
+  }
+});
@@ -0,0 +1,25 @@
+-- Test cases for grading lessons against more than a single expected output
+CREATE TABLE public.lesson_test_cases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  name TEXT,
+  stdin TEXT NOT NULL DEFAULT '',
+  expected_output TEXT NOT NULL,
+  is_hidden BOOLEAN NOT NULL DEFAULT false,
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX lesson_test_cases_lesson_id_idx ON public.lesson_test_cases (lesson_id, order_index);
+
+ALTER TABLE public.lesson_test_cases ENABLE ROW LEVEL SECURITY;
+
+-- Hidden cases are only readable with the service role, i.e. by the grade-submission function
+CREATE POLICY "Anyone can view visible test cases" ON public.lesson_test_cases
+  FOR SELECT USING (NOT is_hidden);
+
+-- Every existing lesson gets its expected output as a visible test case
+INSERT INTO public.lesson_test_cases (lesson_id, name, expected_output, order_index)
+SELECT id, 'Example', expected_output, 0
+FROM public.lessons;
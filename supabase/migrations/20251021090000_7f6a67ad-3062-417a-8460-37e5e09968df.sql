@@ -0,0 +1,48 @@
+-- Lesson completion is verified and awarded by the grade-submission edge function,
+-- which calls complete_lesson with the service role. Clients can no longer write
+-- progress or point totals themselves.
+
+CREATE OR REPLACE FUNCTION public.complete_lesson(
+  _user_id UUID,
+  _lesson_id UUID,
+  _attempts INTEGER,
+  _hints_used INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _points INTEGER;
+BEGIN
+  INSERT INTO public.user_progress (user_id, lesson_id, attempts, hints_used)
+  VALUES (_user_id, _lesson_id, GREATEST(_attempts, 1), GREATEST(_hints_used, 0))
+  ON CONFLICT (user_id, lesson_id) DO NOTHING;
+
+  -- Already completed: nothing more to award
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(points, 0) INTO _points FROM public.lessons WHERE id = _lesson_id;
+
+  UPDATE public.profiles
+  SET total_lessons_completed = COALESCE(total_lessons_completed, 0) + 1,
+      total_points = COALESCE(total_points, 0) + _points
+  WHERE user_id = _user_id;
+
+  RETURN _points;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_lesson(UUID, UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_lesson(UUID, UUID, INTEGER, INTEGER) TO service_role;
+
+-- Progress rows are only written by complete_lesson
+DROP POLICY "Users can insert their own progress" ON public.user_progress;
+DROP POLICY "Users can update their own progress" ON public.user_progress;
+
+-- Users may still edit their own profile, but not the stats columns
+REVOKE INSERT, UPDATE ON public.profiles FROM anon, authenticated;
+GRANT INSERT (user_id, username, avatar_url) ON public.profiles TO authenticated;
+GRANT UPDATE (username, avatar_url) ON public.profiles TO authenticated;
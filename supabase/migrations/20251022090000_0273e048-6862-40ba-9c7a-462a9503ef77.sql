@@ -0,0 +1,23 @@
+-- Per-lesson output comparison instead of exact string equality
+CREATE TYPE output_comparator AS ENUM (
+  'exact',
+  'ignore_whitespace',
+  'numeric_tolerance',
+  'regex',
+  'unordered_lines',
+  'json_equal'
+);
+
+ALTER TABLE public.lessons
+  ADD COLUMN comparator output_comparator NOT NULL DEFAULT 'exact',
+  -- e.g. {"tolerance": 0.001} for numeric_tolerance or {"flags": "i"} for regex
+  ADD COLUMN comparator_options JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+UPDATE public.lessons
+SET comparator = 'numeric_tolerance', comparator_options = '{"tolerance": 0.000001}'::jsonb
+WHERE language = 'java' AND title = 'Integer Division';
+
+-- Goroutine output order is inherently nondeterministic
+UPDATE public.lessons
+SET comparator = 'unordered_lines'
+WHERE language = 'go' AND title = 'Goroutine Race';
@@ -0,0 +1,24 @@
+-- Every Run and Check is recorded so learners can replay past attempts
+CREATE TABLE public.submissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  language programming_language NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('run', 'check')),
+  code TEXT NOT NULL,
+  output TEXT NOT NULL DEFAULT '',
+  -- An execution status for runs, 'passed' or 'failed' for checks
+  verdict TEXT NOT NULL,
+  duration_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX submissions_user_lesson_idx ON public.submissions (user_id, lesson_id, created_at DESC);
+
+ALTER TABLE public.submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own submissions" ON public.submissions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own submissions" ON public.submissions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
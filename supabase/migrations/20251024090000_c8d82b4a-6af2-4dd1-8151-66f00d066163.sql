@@ -0,0 +1,23 @@
+-- In-progress editor code, synced so work resumes on another device
+CREATE TABLE public.lesson_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, lesson_id)
+);
+
+ALTER TABLE public.lesson_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own drafts" ON public.lesson_drafts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own drafts" ON public.lesson_drafts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own drafts" ON public.lesson_drafts
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own drafts" ON public.lesson_drafts
+  FOR DELETE USING (auth.uid() = user_id);
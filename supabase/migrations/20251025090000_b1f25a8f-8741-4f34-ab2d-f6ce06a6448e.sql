@@ -0,0 +1,44 @@
+-- Record solve time and the score actually awarded, which the grade-submission
+-- function now computes from points, attempts, hints and time.
+ALTER TABLE public.user_progress ADD COLUMN points_awarded INTEGER;
+
+UPDATE public.user_progress up
+SET points_awarded = COALESCE(l.points, 0)
+FROM public.lessons l
+WHERE l.id = up.lesson_id;
+
+DROP FUNCTION public.complete_lesson(UUID, UUID, INTEGER, INTEGER);
+
+-- Returns false when the lesson was already completed and nothing was awarded
+CREATE OR REPLACE FUNCTION public.complete_lesson(
+  _user_id UUID,
+  _lesson_id UUID,
+  _attempts INTEGER,
+  _hints_used INTEGER,
+  _time_taken INTEGER,
+  _points INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_progress (user_id, lesson_id, attempts, hints_used, time_taken, points_awarded)
+  VALUES (_user_id, _lesson_id, GREATEST(_attempts, 1), GREATEST(_hints_used, 0), _time_taken, GREATEST(_points, 0))
+  ON CONFLICT (user_id, lesson_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.profiles
+  SET total_lessons_completed = COALESCE(total_lessons_completed, 0) + 1,
+      total_points = COALESCE(total_points, 0) + GREATEST(_points, 0)
+  WHERE user_id = _user_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_lesson(UUID, UUID, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_lesson(UUID, UUID, INTEGER, INTEGER, INTEGER, INTEGER) TO service_role;
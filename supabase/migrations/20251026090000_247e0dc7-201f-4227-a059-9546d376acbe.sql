@@ -0,0 +1,72 @@
+-- Badge awarding, run by the grade-submission function after each completion
+
+-- language_master badges need to know which language they are for
+ALTER TABLE public.badges ADD COLUMN language programming_language;
+
+UPDATE public.badges SET language = 'python' WHERE badge_type = 'language_master' AND name = 'Python Expert';
+
+-- Awards every badge the user now qualifies for and returns only the newly earned ones.
+--   first_debug:        at least requirement_value completions
+--   consecutive_solves: requirement_value completions in a row solved on the first attempt
+--   language_master:    requirement_value completions in the badge's language, or all of them if fewer exist
+--   speed_demon:        a completion within requirement_value seconds
+--   accuracy_ace:       requirement_value completions without hints
+CREATE OR REPLACE FUNCTION public.award_badges(_user_id UUID)
+RETURNS SETOF public.badges
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH progress AS (
+    SELECT up.*, l.language
+    FROM public.user_progress up
+    JOIN public.lessons l ON l.id = up.lesson_id
+    WHERE up.user_id = _user_id
+  ),
+  first_try_runs AS (
+    SELECT count(*) AS run_length
+    FROM (
+      SELECT attempts = 1 AS first_try,
+        row_number() OVER (ORDER BY completed_at)
+          - row_number() OVER (PARTITION BY attempts = 1 ORDER BY completed_at) AS run_id
+      FROM progress
+    ) runs
+    WHERE first_try
+    GROUP BY run_id
+  ),
+  earned AS (
+    SELECT b.id
+    FROM public.badges b
+    WHERE CASE b.badge_type
+      WHEN 'first_debug' THEN
+        (SELECT count(*) FROM progress) >= COALESCE(b.requirement_value, 1)
+      WHEN 'consecutive_solves' THEN
+        (SELECT COALESCE(max(run_length), 0) FROM first_try_runs) >= COALESCE(b.requirement_value, 1)
+      WHEN 'language_master' THEN
+        b.language IS NOT NULL AND (
+          SELECT count(*) FROM progress WHERE language = b.language
+        ) >= (
+          SELECT GREATEST(LEAST(count(*), COALESCE(b.requirement_value, count(*))), 1)
+          FROM public.lessons WHERE language = b.language
+        )
+      WHEN 'speed_demon' THEN
+        EXISTS (SELECT 1 FROM progress WHERE time_taken <= b.requirement_value)
+      WHEN 'accuracy_ace' THEN
+        (SELECT count(*) FROM progress WHERE hints_used = 0) >= COALESCE(b.requirement_value, 1)
+      ELSE false
+    END
+  ),
+  inserted AS (
+    INSERT INTO public.user_badges (user_id, badge_id)
+    SELECT _user_id, id FROM earned
+    ON CONFLICT (user_id, badge_id) DO NOTHING
+    RETURNING badge_id
+  )
+  SELECT b.* FROM public.badges b JOIN inserted ON inserted.badge_id = b.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_badges(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.award_badges(UUID) TO service_role;
+
+-- Award whatever existing learners have already earned
+SELECT public.award_badges(user_id)
+FROM (SELECT DISTINCT user_id FROM public.user_progress) AS learners;
@@ -0,0 +1,143 @@
+-- Daily streaks: consecutive calendar days, in the learner's own timezone, with
+-- at least one completed lesson.
+
+ALTER TABLE public.profiles
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC',
+  ADD COLUMN last_solved_on DATE;
+
+-- The app keeps the timezone in sync with the browser
+GRANT UPDATE (timezone) ON public.profiles TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.validate_profile_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_profile_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_profile_timezone();
+
+-- Recomputes a learner's streaks from their whole completion history, so it is
+-- safe to run at any time and doubles as the backfill.
+CREATE OR REPLACE FUNCTION public.refresh_streak(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _timezone TEXT;
+  _today DATE;
+  _last_day DATE;
+  _current INTEGER := 0;
+  _best INTEGER := 0;
+BEGIN
+  SELECT timezone INTO _timezone FROM public.profiles WHERE user_id = _user_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  _today := (now() AT TIME ZONE _timezone)::date;
+
+  WITH solve_days AS (
+    SELECT DISTINCT (completed_at AT TIME ZONE _timezone)::date AS day
+    FROM public.user_progress
+    WHERE user_id = _user_id AND completed_at IS NOT NULL
+  ),
+  runs AS (
+    -- Consecutive days share the same anchor date
+    SELECT day, day - (row_number() OVER (ORDER BY day))::integer AS anchor
+    FROM solve_days
+  ),
+  run_lengths AS (
+    SELECT max(day) AS last_day, count(*)::integer AS length
+    FROM runs
+    GROUP BY anchor
+  )
+  SELECT
+    max(last_day),
+    COALESCE(max(length), 0),
+    -- A streak stays alive until a full day has been missed
+    COALESCE(max(length) FILTER (WHERE last_day >= _today - 1), 0)
+  INTO _last_day, _best, _current
+  FROM run_lengths;
+
+  UPDATE public.profiles
+  SET current_streak = _current,
+      best_streak = GREATEST(COALESCE(best_streak, 0), _best),
+      last_solved_on = _last_day
+  WHERE user_id = _user_id;
+
+  RETURN _current;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_streak(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_streak(UUID) TO service_role;
+
+-- Streaks only grow when a lesson is solved, so extend complete_lesson to refresh them
+CREATE OR REPLACE FUNCTION public.complete_lesson(
+  _user_id UUID,
+  _lesson_id UUID,
+  _attempts INTEGER,
+  _hints_used INTEGER,
+  _time_taken INTEGER,
+  _points INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_progress (user_id, lesson_id, attempts, hints_used, time_taken, points_awarded)
+  VALUES (_user_id, _lesson_id, GREATEST(_attempts, 1), GREATEST(_hints_used, 0), _time_taken, GREATEST(_points, 0))
+  ON CONFLICT (user_id, lesson_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.profiles
+  SET total_lessons_completed = COALESCE(total_lessons_completed, 0) + 1,
+      total_points = COALESCE(total_points, 0) + GREATEST(_points, 0)
+  WHERE user_id = _user_id;
+
+  PERFORM public.refresh_streak(_user_id);
+
+  RETURN true;
+END;
+$$;
+
+-- ...and reset them once a learner's local calendar has moved past a missed day
+CREATE OR REPLACE FUNCTION public.expire_streaks()
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH expired AS (
+    UPDATE public.profiles
+    SET current_streak = 0
+    WHERE current_streak > 0
+      AND (last_solved_on IS NULL OR last_solved_on < (now() AT TIME ZONE timezone)::date - 1)
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM expired;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_streaks() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_streaks() TO service_role;
+
+-- Midnight falls at a different hour in every timezone, so check hourly
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+SELECT cron.schedule('expire-streaks', '5 * * * *', 'SELECT public.expire_streaks()');
+
+-- Backfill from existing completion history
+SELECT public.refresh_streak(user_id)
+FROM (SELECT DISTINCT user_id FROM public.user_progress) AS learners;
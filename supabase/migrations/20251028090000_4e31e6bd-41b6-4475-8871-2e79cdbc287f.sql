@@ -0,0 +1,82 @@
+-- Lesson authoring: instructors write lessons in the app as drafts and publish
+-- them once the publish-lesson function has validated them.
+
+CREATE TYPE public.app_role AS ENUM ('instructor', 'admin');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own roles" ON public.user_roles
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- SECURITY DEFINER so policies can check roles without recursing into user_roles RLS
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role);
+$$;
+
+-- Lessons start as drafts; existing lessons are already live
+CREATE TYPE public.lesson_status AS ENUM ('draft', 'published');
+
+ALTER TABLE public.lessons ADD COLUMN status lesson_status NOT NULL DEFAULT 'draft';
+UPDATE public.lessons SET status = 'published';
+
+DROP POLICY "Anyone can view lessons" ON public.lessons;
+
+CREATE POLICY "Anyone can view published lessons" ON public.lessons
+  FOR SELECT USING (status = 'published');
+
+CREATE POLICY "Instructors can view all lessons" ON public.lessons
+  FOR SELECT USING (public.has_role(auth.uid(), 'instructor') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Instructors can create lessons" ON public.lessons
+  FOR INSERT WITH CHECK (public.has_role(auth.uid(), 'instructor') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Instructors can update lessons" ON public.lessons
+  FOR UPDATE USING (public.has_role(auth.uid(), 'instructor') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Instructors can delete draft lessons" ON public.lessons
+  FOR DELETE USING (status = 'draft' AND (public.has_role(auth.uid(), 'instructor') OR public.has_role(auth.uid(), 'admin')));
+
+-- Only publish-lesson may change the status, after validating the lesson
+REVOKE INSERT, UPDATE ON public.lessons FROM anon, authenticated;
+GRANT INSERT (title, language, difficulty, description, starter_code, expected_output, hints, points, order_index, comparator, comparator_options)
+  ON public.lessons TO authenticated;
+GRANT UPDATE (title, language, difficulty, description, starter_code, expected_output, hints, points, order_index, comparator, comparator_options)
+  ON public.lessons TO authenticated;
+
+-- Reference solutions live apart from lessons so learners can never read them
+CREATE TABLE public.lesson_solutions (
+  lesson_id UUID NOT NULL PRIMARY KEY REFERENCES public.lessons(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lesson_solutions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage solutions" ON public.lesson_solutions
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'instructor') OR public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'instructor') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_lesson_solutions_updated_at
+  BEFORE UPDATE ON public.lesson_solutions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Instructors see and edit every test case, hidden ones included
+CREATE POLICY "Instructors can manage test cases" ON public.lesson_test_cases
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'instructor') OR public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'instructor') OR public.has_role(auth.uid(), 'admin'));
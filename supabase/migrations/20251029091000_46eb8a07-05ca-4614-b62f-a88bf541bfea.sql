@@ -0,0 +1,107 @@
+-- Role-based access control: learners, instructors and admins
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.has_role(auth.uid(), 'admin');
+$$;
+
+-- Instructors and admins can author content and follow their cohort
+CREATE OR REPLACE FUNCTION public.is_instructor()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.has_role(auth.uid(), 'instructor') OR public.has_role(auth.uid(), 'admin');
+$$;
+
+-- New accounts start as learners
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, username)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'username');
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'learner');
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'learner' FROM auth.users
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Only admins hand out roles
+CREATE POLICY "Admins can view all roles" ON public.user_roles
+  FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admins can grant roles" ON public.user_roles
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can revoke roles" ON public.user_roles
+  FOR DELETE USING (public.is_admin());
+
+-- Badges are awarded by award_badges, which bypasses RLS. Anyone could insert
+-- any badge for themselves through the old policy.
+DROP POLICY "System can insert user badges" ON public.user_badges;
+
+CREATE POLICY "Admins can award badges" ON public.user_badges
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can revoke badges" ON public.user_badges
+  FOR DELETE USING (public.is_admin());
+
+-- Instructors write badges alongside lessons
+CREATE POLICY "Instructors can create badges" ON public.badges
+  FOR INSERT WITH CHECK (public.is_instructor());
+
+CREATE POLICY "Instructors can update badges" ON public.badges
+  FOR UPDATE USING (public.is_instructor());
+
+CREATE POLICY "Instructors can delete badges" ON public.badges
+  FOR DELETE USING (public.is_instructor());
+
+-- ...and follow how their cohort is doing
+CREATE POLICY "Instructors can view all profiles" ON public.profiles
+  FOR SELECT USING (public.is_instructor());
+
+CREATE POLICY "Instructors can view all progress" ON public.user_progress
+  FOR SELECT USING (public.is_instructor());
+
+CREATE POLICY "Instructors can view all submissions" ON public.submissions
+  FOR SELECT USING (public.is_instructor());
+
+-- Use the helpers for the authoring policies too
+DROP POLICY "Instructors can view all lessons" ON public.lessons;
+DROP POLICY "Instructors can create lessons" ON public.lessons;
+DROP POLICY "Instructors can update lessons" ON public.lessons;
+DROP POLICY "Instructors can delete draft lessons" ON public.lessons;
+DROP POLICY "Instructors can manage solutions" ON public.lesson_solutions;
+DROP POLICY "Instructors can manage test cases" ON public.lesson_test_cases;
+
+CREATE POLICY "Instructors can view all lessons" ON public.lessons
+  FOR SELECT USING (public.is_instructor());
+
+CREATE POLICY "Instructors can create lessons" ON public.lessons
+  FOR INSERT WITH CHECK (public.is_instructor());
+
+CREATE POLICY "Instructors can update lessons" ON public.lessons
+  FOR UPDATE USING (public.is_instructor());
+
+CREATE POLICY "Instructors can delete draft lessons" ON public.lessons
+  FOR DELETE USING (status = 'draft' AND public.is_instructor());
+
+CREATE POLICY "Instructors can manage solutions" ON public.lesson_solutions
+  FOR ALL USING (public.is_instructor()) WITH CHECK (public.is_instructor());
+
+CREATE POLICY "Instructors can manage test cases" ON public.lesson_test_cases
+  FOR ALL USING (public.is_instructor()) WITH CHECK (public.is_instructor());
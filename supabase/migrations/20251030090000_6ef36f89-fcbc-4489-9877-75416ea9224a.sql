@@ -0,0 +1,24 @@
+-- Stable, human-readable lesson identifiers, used by lesson packs to match
+-- lessons across deployments where ids differ.
+ALTER TABLE public.lessons ADD COLUMN slug TEXT;
+
+WITH slugs AS (
+  SELECT id, language,
+    trim(BOTH '-' FROM regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g')) AS slug
+  FROM public.lessons
+),
+numbered AS (
+  SELECT id, slug, row_number() OVER (PARTITION BY language, slug ORDER BY id) AS n
+  FROM slugs
+)
+UPDATE public.lessons l
+SET slug = CASE WHEN numbered.n = 1 THEN numbered.slug ELSE numbered.slug || '-' || numbered.n END
+FROM numbered
+WHERE numbered.id = l.id;
+
+ALTER TABLE public.lessons
+  ALTER COLUMN slug SET NOT NULL,
+  ADD CONSTRAINT lessons_slug_format CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  ADD CONSTRAINT lessons_language_slug_key UNIQUE (language, slug);
+
+GRANT INSERT (slug), UPDATE (slug) ON public.lessons TO authenticated;
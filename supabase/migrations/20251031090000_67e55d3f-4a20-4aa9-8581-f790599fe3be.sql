@@ -0,0 +1,40 @@
+-- Lesson catalog: topic tags and full-text search
+
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.lesson_tags (
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (lesson_id, tag_id)
+);
+
+CREATE INDEX lesson_tags_tag_id_idx ON public.lesson_tags (tag_id);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lesson_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tags" ON public.tags
+  FOR SELECT USING (true);
+
+CREATE POLICY "Instructors can manage tags" ON public.tags
+  FOR ALL USING (public.is_instructor()) WITH CHECK (public.is_instructor());
+
+CREATE POLICY "Anyone can view lesson tags" ON public.lesson_tags
+  FOR SELECT USING (true);
+
+CREATE POLICY "Instructors can manage lesson tags" ON public.lesson_tags
+  FOR ALL USING (public.is_instructor()) WITH CHECK (public.is_instructor());
+
+-- Titles weigh more than descriptions when ranking search results
+ALTER TABLE public.lessons ADD COLUMN search tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX lessons_search_idx ON public.lessons USING GIN (search);
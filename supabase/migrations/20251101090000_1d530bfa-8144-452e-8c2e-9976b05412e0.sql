@@ -0,0 +1,152 @@
+-- Learning paths and lesson prerequisites
+
+-- A path is an ordered list of lessons; language is null for paths that mix languages
+CREATE TABLE public.learning_paths (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  language programming_language,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.learning_path_lessons (
+  path_id UUID NOT NULL REFERENCES public.learning_paths(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  PRIMARY KEY (path_id, lesson_id),
+  UNIQUE (path_id, position)
+);
+
+CREATE INDEX learning_path_lessons_lesson_id_idx ON public.learning_path_lessons (lesson_id);
+
+-- A lesson stays locked until every published prerequisite has been completed
+CREATE TABLE public.lesson_prerequisites (
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  prerequisite_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  PRIMARY KEY (lesson_id, prerequisite_id),
+  CHECK (lesson_id <> prerequisite_id)
+);
+
+CREATE INDEX lesson_prerequisites_prerequisite_id_idx ON public.lesson_prerequisites (prerequisite_id);
+
+ALTER TABLE public.learning_paths ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.learning_path_lessons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lesson_prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view learning paths" ON public.learning_paths
+  FOR SELECT USING (true);
+
+CREATE POLICY "Instructors can manage learning paths" ON public.learning_paths
+  FOR ALL USING (public.is_instructor()) WITH CHECK (public.is_instructor());
+
+CREATE POLICY "Anyone can view learning path lessons" ON public.learning_path_lessons
+  FOR SELECT USING (true);
+
+CREATE POLICY "Instructors can manage learning path lessons" ON public.learning_path_lessons
+  FOR ALL USING (public.is_instructor()) WITH CHECK (public.is_instructor());
+
+CREATE POLICY "Anyone can view lesson prerequisites" ON public.lesson_prerequisites
+  FOR SELECT USING (true);
+
+CREATE POLICY "Instructors can manage lesson prerequisites" ON public.lesson_prerequisites
+  FOR ALL USING (public.is_instructor()) WITH CHECK (public.is_instructor());
+
+-- A cycle would lock every lesson on it for good
+CREATE OR REPLACE FUNCTION public.prevent_prerequisite_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT prerequisite_id FROM public.lesson_prerequisites WHERE lesson_id = NEW.prerequisite_id
+      UNION
+      SELECT lp.prerequisite_id
+      FROM public.lesson_prerequisites lp
+      JOIN ancestors a ON lp.lesson_id = a.prerequisite_id
+    )
+    SELECT 1 FROM ancestors WHERE prerequisite_id = NEW.lesson_id
+  ) THEN
+    RAISE EXCEPTION 'Prerequisite would create a cycle';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_prerequisite_cycle
+  BEFORE INSERT OR UPDATE ON public.lesson_prerequisites
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_prerequisite_cycle();
+
+-- Published prerequisites of a lesson that the user has not completed yet.
+-- grade-submission refuses to grade a lesson while this returns any rows.
+CREATE OR REPLACE FUNCTION public.missing_prerequisites(_user_id UUID, _lesson_id UUID)
+RETURNS TABLE (id UUID, title TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT l.id, l.title
+  FROM public.lesson_prerequisites lp
+  JOIN public.lessons l ON l.id = lp.prerequisite_id
+  WHERE lp.lesson_id = _lesson_id
+    AND l.status = 'published'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_progress up
+      WHERE up.user_id = _user_id AND up.lesson_id = l.id
+    )
+  ORDER BY l.order_index;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.missing_prerequisites(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.missing_prerequisites(UUID, UUID) TO service_role;
+
+-- Seed paths from the existing lessons
+INSERT INTO public.learning_paths (slug, title, description, language, order_index) VALUES
+('python-fundamentals', 'Python Fundamentals Bugs', 'Indexing, string handling, scope and dictionary mistakes every Python beginner runs into.', 'python', 1),
+('javascript-pitfalls', 'JavaScript Pitfalls', 'Equality, mutation and asynchronous surprises in everyday JavaScript.', 'javascript', 2),
+('go-concurrency', 'Concurrency Bugs in Go', 'From scoping and slices up to data races and deadlocked channels.', 'go', 3);
+
+INSERT INTO public.learning_path_lessons (path_id, lesson_id, position)
+SELECT p.id, l.id, s.position
+FROM (VALUES
+  ('python-fundamentals', 'off-by-one-error-in-loop', 1),
+  ('python-fundamentals', 'variable-swap-error', 2),
+  ('python-fundamentals', 'list-index-bug', 3),
+  ('python-fundamentals', 'string-concatenation-issue', 4),
+  ('python-fundamentals', 'variable-scope-issue', 5),
+  ('python-fundamentals', 'division-by-zero', 6),
+  ('python-fundamentals', 'dictionary-keyerror', 7),
+  ('javascript-pitfalls', 'const-reassignment', 1),
+  ('javascript-pitfalls', 'equality-vs-identity', 2),
+  ('javascript-pitfalls', 'loose-equality-bug', 3),
+  ('javascript-pitfalls', 'array-push-return-bug', 4),
+  ('javascript-pitfalls', 'callback-scope-issue', 5),
+  ('javascript-pitfalls', 'async-function-issue', 6),
+  ('javascript-pitfalls', 'async-await-error', 7),
+  ('go-concurrency', 'short-declaration-scope', 1),
+  ('go-concurrency', 'slice-append-bug', 2),
+  ('go-concurrency', 'goroutine-race', 3),
+  ('go-concurrency', 'channel-deadlock', 4)
+) AS s(path_slug, lesson_slug, position)
+JOIN public.learning_paths p ON p.slug = s.path_slug
+JOIN public.lessons l ON l.language = p.language AND l.slug = s.lesson_slug;
+
+INSERT INTO public.lesson_prerequisites (lesson_id, prerequisite_id)
+SELECT l.id, prerequisite.id
+FROM (VALUES
+  ('python', 'list-index-bug', 'off-by-one-error-in-loop'),
+  ('python', 'dictionary-keyerror', 'list-index-bug'),
+  ('python', 'variable-scope-issue', 'variable-swap-error'),
+  ('javascript', 'loose-equality-bug', 'equality-vs-identity'),
+  ('javascript', 'async-function-issue', 'callback-scope-issue'),
+  ('javascript', 'async-await-error', 'async-function-issue'),
+  ('go', 'goroutine-race', 'short-declaration-scope'),
+  ('go', 'goroutine-race', 'slice-append-bug'),
+  ('go', 'channel-deadlock', 'goroutine-race')
+) AS s(language, lesson_slug, prerequisite_slug)
+JOIN public.lessons l ON l.language = s.language::programming_language AND l.slug = s.lesson_slug
+JOIN public.lessons prerequisite
+  ON prerequisite.language = s.language::programming_language AND prerequisite.slug = s.prerequisite_slug;
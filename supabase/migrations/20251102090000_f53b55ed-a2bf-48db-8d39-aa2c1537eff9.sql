@@ -0,0 +1,103 @@
+-- Concept tags for the seeded lessons and per-concept mastery
+
+INSERT INTO public.tags (slug, name, description) VALUES
+('off-by-one', 'Off-by-one', 'Loop bounds and indexes that stop one step too early or too late.'),
+('scope', 'Scope', 'Where a variable is declared, visible and captured.'),
+('null-handling', 'Null handling', 'Missing values, absent keys and empty options.'),
+('async', 'Async', 'Promises, callbacks and code that finishes later.'),
+('concurrency', 'Concurrency', 'Goroutines, shared state, races and deadlocks.'),
+('memory', 'Memory', 'Allocation, deallocation and uninitialized memory.'),
+('type-coercion', 'Type coercion', 'Implicit conversions, equality and integer arithmetic.'),
+('ownership-borrowing', 'Ownership & borrowing', 'Who owns a value, and how long references to it live.'),
+('error-handling', 'Error handling', 'Guarding against failures instead of crashing.'),
+('mutation', 'Mutation', 'Changing values in place, and what a mutating call returns.'),
+('compile-errors', 'Compile errors', 'Code the compiler rejects before it ever runs.'),
+('control-flow', 'Control flow', 'Loop conditions and the order statements run in.')
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO public.lesson_tags (lesson_id, tag_id)
+SELECT l.id, t.id
+FROM (VALUES
+  ('python', 'off-by-one-error-in-loop', 'off-by-one'),
+  ('python', 'off-by-one-error-in-loop', 'control-flow'),
+  ('python', 'variable-scope-issue', 'scope'),
+  ('python', 'variable-swap-error', 'mutation'),
+  ('python', 'list-index-bug', 'off-by-one'),
+  ('python', 'string-concatenation-issue', 'type-coercion'),
+  ('python', 'division-by-zero', 'error-handling'),
+  ('python', 'dictionary-keyerror', 'null-handling'),
+  ('python', 'dictionary-keyerror', 'error-handling'),
+  ('javascript', 'equality-vs-identity', 'type-coercion'),
+  ('javascript', 'async-function-issue', 'async'),
+  ('javascript', 'const-reassignment', 'scope'),
+  ('javascript', 'const-reassignment', 'mutation'),
+  ('javascript', 'array-push-return-bug', 'mutation'),
+  ('javascript', 'loose-equality-bug', 'type-coercion'),
+  ('javascript', 'callback-scope-issue', 'scope'),
+  ('javascript', 'callback-scope-issue', 'async'),
+  ('javascript', 'async-await-error', 'async'),
+  ('java', 'array-index-error', 'off-by-one'),
+  ('java', 'integer-division', 'type-coercion'),
+  ('java', 'string-comparison-bug', 'type-coercion'),
+  ('java', 'array-index-out-of-bounds', 'off-by-one'),
+  ('java', 'null-pointer-exception', 'null-handling'),
+  ('java', 'infinite-loop', 'control-flow'),
+  ('cpp', 'memory-leak', 'memory'),
+  ('cpp', 'memory-leak-2', 'memory'),
+  ('cpp', 'missing-semicolon', 'compile-errors'),
+  ('cpp', 'uninitialized-variable', 'memory'),
+  ('cpp', 'vector-out-of-range', 'off-by-one'),
+  ('cpp', 'dangling-pointer', 'memory'),
+  ('cpp', 'dangling-pointer', 'ownership-borrowing'),
+  ('go', 'short-declaration-scope', 'scope'),
+  ('go', 'unused-import', 'compile-errors'),
+  ('go', 'slice-append-bug', 'mutation'),
+  ('go', 'goroutine-race', 'concurrency'),
+  ('go', 'channel-deadlock', 'concurrency'),
+  ('rust', 'ownership-error', 'ownership-borrowing'),
+  ('rust', 'mutable-reference-error', 'ownership-borrowing'),
+  ('rust', 'mutable-reference-error', 'mutation'),
+  ('rust', 'borrow-checker-error', 'ownership-borrowing'),
+  ('rust', 'lifetime-error', 'ownership-borrowing'),
+  ('rust', 'option-unwrap-panic', 'null-handling'),
+  ('rust', 'option-unwrap-panic', 'error-handling')
+) AS s(language, lesson_slug, tag_slug)
+JOIN public.lessons l ON l.language = s.language::programming_language AND l.slug = s.lesson_slug
+JOIN public.tags t ON t.slug = s.tag_slug
+ON CONFLICT (lesson_id, tag_id) DO NOTHING;
+
+-- Mastery of each concept, from 0 to 100. Every completed lesson with the tag
+-- counts for 1, less the share of points extra attempts and hints cost in
+-- supabase/functions/_shared/scoring.ts, and at least 0.25; the sum is divided
+-- by the number of published lessons with the tag. Runs with the caller's
+-- rights, so learners only ever see their own progress.
+CREATE OR REPLACE FUNCTION public.concept_mastery(_user_id UUID)
+RETURNS TABLE (
+  tag_id UUID,
+  slug TEXT,
+  name TEXT,
+  total_lessons INTEGER,
+  completed_lessons INTEGER,
+  mastery INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.slug,
+    t.name,
+    count(*)::INTEGER,
+    count(up.id)::INTEGER,
+    round(100 * COALESCE(sum(GREATEST(
+      0.25,
+      1 - LEAST((COALESCE(up.attempts, 1) - 1) * 0.1, 0.5) - LEAST(COALESCE(up.hints_used, 0) * 0.15, 0.45)
+    )) FILTER (WHERE up.id IS NOT NULL), 0) / count(*))::INTEGER
+  FROM public.tags t
+  JOIN public.lesson_tags lt ON lt.tag_id = t.id
+  JOIN public.lessons l ON l.id = lt.lesson_id AND l.status = 'published'
+  LEFT JOIN public.user_progress up ON up.lesson_id = l.id AND up.user_id = _user_id
+  GROUP BY t.id, t.slug, t.name
+  ORDER BY t.name;
+$$;
@@ -0,0 +1,147 @@
+-- Next-lesson recommendations, used after each solve and on the Dashboard
+
+-- Ranks the published, unlocked lessons the user has not completed yet. Each
+-- candidate scores up to 1:
+--   0.5 for targeting the concept that has tripped the user up most, measured by
+--       the points lost on solved lessons and by failed checks
+--   0.3 for matching the difficulty the user is ready for: one level above their
+--       last five solves when those were clean and quick, one below when they
+--       were a struggle
+--   0.2 for staying in the language of the current lesson, or of the last solve
+-- Runs with the caller's rights, so only the caller's own history is visible.
+CREATE OR REPLACE FUNCTION public.recommend_lessons(
+  _user_id UUID,
+  _current_lesson_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 3
+)
+RETURNS TABLE (
+  id UUID,
+  slug TEXT,
+  title TEXT,
+  language programming_language,
+  difficulty difficulty_level,
+  reason TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH completions AS (
+    SELECT
+      up.lesson_id,
+      up.completed_at,
+      COALESCE(up.attempts, 1) AS attempts,
+      COALESCE(up.hints_used, 0) AS hints_used,
+      up.time_taken,
+      l.language,
+      array_position(enum_range(NULL::difficulty_level), l.difficulty) AS level,
+      -- Par times match supabase/functions/_shared/scoring.ts
+      CASE l.difficulty WHEN 'easy' THEN 120 WHEN 'medium' THEN 300 WHEN 'hard' THEN 600 ELSE 900 END AS par
+    FROM public.user_progress up
+    JOIN public.lessons l ON l.id = up.lesson_id
+    WHERE up.user_id = _user_id
+  ),
+  recent AS (
+    SELECT * FROM completions ORDER BY completed_at DESC LIMIT 5
+  ),
+  target AS (
+    SELECT CASE
+      WHEN count(*) = 0 THEN 1
+      ELSE LEAST(4, GREATEST(1, round(avg(level))::INTEGER + CASE
+        WHEN avg(attempts) >= 3 OR avg(hints_used) >= 1.5 OR COALESCE(avg(time_taken::NUMERIC / par), 1) > 1.5 THEN -1
+        WHEN avg(attempts) <= 1.5 AND avg(hints_used) < 0.5 AND COALESCE(avg(time_taken::NUMERIC / par), 1) <= 1 THEN 1
+        ELSE 0
+      END))
+    END AS level
+    FROM recent
+  ),
+  home AS (
+    SELECT COALESCE(
+      (SELECT l.language FROM public.lessons l WHERE l.id = _current_lesson_id),
+      (SELECT c.language FROM completions c ORDER BY c.completed_at DESC LIMIT 1)
+    ) AS language
+  ),
+  -- Same penalties as scoreCompletion: the share of points lost to attempts and hints
+  solved_concepts AS (
+    SELECT lt.tag_id, avg(1 - GREATEST(
+      0.25,
+      1 - LEAST((c.attempts - 1) * 0.1, 0.5) - LEAST(c.hints_used * 0.15, 0.45)
+    )) AS lost
+    FROM completions c
+    JOIN public.lesson_tags lt ON lt.lesson_id = c.lesson_id
+    GROUP BY lt.tag_id
+  ),
+  failed_concepts AS (
+    SELECT lt.tag_id, count(*) AS failed
+    FROM public.submissions s
+    JOIN public.lesson_tags lt ON lt.lesson_id = s.lesson_id
+    WHERE s.user_id = _user_id AND s.kind = 'check' AND s.verdict = 'failed'
+    GROUP BY lt.tag_id
+  ),
+  weakness AS (
+    SELECT t.id AS tag_id, t.name, LEAST(1, COALESCE(sc.lost, 0) + 0.1 * COALESCE(fc.failed, 0)) AS weakness
+    FROM public.tags t
+    LEFT JOIN solved_concepts sc ON sc.tag_id = t.id
+    LEFT JOIN failed_concepts fc ON fc.tag_id = t.id
+    WHERE sc.tag_id IS NOT NULL OR fc.tag_id IS NOT NULL
+  ),
+  candidates AS (
+    SELECT
+      l.id,
+      l.slug,
+      l.title,
+      l.language,
+      l.difficulty,
+      l.order_index,
+      array_position(enum_range(NULL::difficulty_level), l.difficulty) AS level,
+      weakest.name AS concept,
+      COALESCE(weakest.weakness, 0) AS weakness
+    FROM public.lessons l
+    LEFT JOIN LATERAL (
+      SELECT w.name, w.weakness
+      FROM public.lesson_tags lt
+      JOIN weakness w ON w.tag_id = lt.tag_id
+      WHERE lt.lesson_id = l.id
+      ORDER BY w.weakness DESC
+      LIMIT 1
+    ) weakest ON true
+    WHERE l.status = 'published'
+      AND l.id IS DISTINCT FROM _current_lesson_id
+      AND NOT EXISTS (SELECT 1 FROM completions c WHERE c.lesson_id = l.id)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.lesson_prerequisites lp
+        JOIN public.lessons p ON p.id = lp.prerequisite_id AND p.status = 'published'
+        WHERE lp.lesson_id = l.id
+          AND NOT EXISTS (SELECT 1 FROM completions c WHERE c.lesson_id = p.id)
+      )
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      t.level AS target_level,
+      c.language IS NOT DISTINCT FROM h.language AS same_language,
+      0.5 * c.weakness
+        + 0.3 * (1 - abs(c.level - t.level) / 3.0)
+        + 0.2 * (c.language IS NOT DISTINCT FROM h.language)::INTEGER AS score
+    FROM candidates c
+    CROSS JOIN target t
+    CROSS JOIN home h
+  )
+  SELECT
+    s.id,
+    s.slug,
+    s.title,
+    s.language,
+    s.difficulty,
+    CASE
+      WHEN s.weakness >= 0.3 THEN 'More practice with ' || s.concept || ', which has tripped you up before'
+      WHEN s.level = s.target_level AND s.same_language THEN 'The next step at your current level'
+      WHEN s.level = s.target_level THEN 'Matches the difficulty you are ready for'
+      WHEN s.same_language THEN 'Keeps you in the same language'
+      ELSE 'Something new to try'
+    END
+  FROM scored s
+  ORDER BY s.score DESC, s.same_language DESC, s.order_index, s.title
+  LIMIT _limit;
+$$;
@@ -0,0 +1,185 @@
+-- Spaced-repetition reviews of solved lessons (SM-2)
+
+-- One schedule per solved lesson. ease_factor, interval_days and repetitions
+-- follow the SM-2 algorithm.
+CREATE TABLE public.review_items (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  ease_factor NUMERIC(4,2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 1,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, lesson_id)
+);
+
+CREATE INDEX review_items_user_due_idx ON public.review_items (user_id, due_at);
+
+-- Review outcomes are kept apart from user_progress and never award points
+CREATE TABLE public.review_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  passed BOOLEAN NOT NULL,
+  quality INTEGER NOT NULL CHECK (quality BETWEEN 0 AND 5),
+  attempts INTEGER NOT NULL,
+  hints_used INTEGER NOT NULL,
+  time_taken INTEGER,
+  interval_days INTEGER NOT NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX review_attempts_user_lesson_idx ON public.review_attempts (user_id, lesson_id, reviewed_at DESC);
+
+ALTER TABLE public.review_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Only the submit-review function writes these, through record_review
+CREATE POLICY "Users can view their own review items" ON public.review_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Instructors can view all review items" ON public.review_items
+  FOR SELECT USING (public.is_instructor());
+
+CREATE POLICY "Users can view their own review attempts" ON public.review_attempts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Instructors can view all review attempts" ON public.review_attempts
+  FOR SELECT USING (public.is_instructor());
+
+-- SM-2 grades recall from 0 to 5; 3 and above counts as remembered. A clean
+-- solve is a 5, and every extra attempt or hint costs a point down to 3.
+CREATE OR REPLACE FUNCTION public.review_quality(_passed BOOLEAN, _attempts INTEGER, _hints_used INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN NOT _passed THEN 1
+    ELSE GREATEST(3, 5 - (GREATEST(_attempts, 1) - 1) - GREATEST(_hints_used, 0))
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_ease(_ease_factor NUMERIC, _quality INTEGER)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT GREATEST(1.3, _ease_factor + 0.1 - (5 - _quality) * (0.08 + (5 - _quality) * 0.02));
+$$;
+
+-- Records a review and reschedules the lesson, returning the new schedule
+CREATE OR REPLACE FUNCTION public.record_review(
+  _user_id UUID,
+  _lesson_id UUID,
+  _passed BOOLEAN,
+  _attempts INTEGER,
+  _hints_used INTEGER,
+  _time_taken INTEGER
+)
+RETURNS public.review_items
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _item public.review_items;
+  _quality INTEGER := public.review_quality(_passed, _attempts, _hints_used);
+BEGIN
+  SELECT * INTO _item FROM public.review_items
+  WHERE user_id = _user_id AND lesson_id = _lesson_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % is not in the review queue', _lesson_id;
+  END IF;
+
+  IF _quality < 3 THEN
+    _item.repetitions := 0;
+    _item.interval_days := 1;
+  ELSE
+    _item.repetitions := _item.repetitions + 1;
+    _item.interval_days := CASE _item.repetitions
+      WHEN 1 THEN 1
+      WHEN 2 THEN 6
+      ELSE CEIL(_item.interval_days * _item.ease_factor)::INTEGER
+    END;
+  END IF;
+  _item.ease_factor := public.review_ease(_item.ease_factor, _quality);
+  _item.last_reviewed_at := now();
+  _item.due_at := now() + make_interval(days => _item.interval_days);
+
+  UPDATE public.review_items
+  SET repetitions = _item.repetitions,
+      interval_days = _item.interval_days,
+      ease_factor = _item.ease_factor,
+      last_reviewed_at = _item.last_reviewed_at,
+      due_at = _item.due_at
+  WHERE user_id = _user_id AND lesson_id = _lesson_id;
+
+  INSERT INTO public.review_attempts (user_id, lesson_id, passed, quality, attempts, hints_used, time_taken, interval_days)
+  VALUES (_user_id, _lesson_id, _passed, _quality, GREATEST(_attempts, 1), GREATEST(_hints_used, 0), _time_taken, _item.interval_days);
+
+  RETURN _item;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_review(UUID, UUID, BOOLEAN, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_review(UUID, UUID, BOOLEAN, INTEGER, INTEGER, INTEGER) TO service_role;
+
+-- The first solve counts as the first repetition: review tomorrow, with an
+-- ease that is already lower when the solve took extra attempts or hints
+CREATE OR REPLACE FUNCTION public.complete_lesson(
+  _user_id UUID,
+  _lesson_id UUID,
+  _attempts INTEGER,
+  _hints_used INTEGER,
+  _time_taken INTEGER,
+  _points INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_progress (user_id, lesson_id, attempts, hints_used, time_taken, points_awarded)
+  VALUES (_user_id, _lesson_id, GREATEST(_attempts, 1), GREATEST(_hints_used, 0), _time_taken, GREATEST(_points, 0))
+  ON CONFLICT (user_id, lesson_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.profiles
+  SET total_lessons_completed = COALESCE(total_lessons_completed, 0) + 1,
+      total_points = COALESCE(total_points, 0) + GREATEST(_points, 0)
+  WHERE user_id = _user_id;
+
+  PERFORM public.refresh_streak(_user_id);
+
+  INSERT INTO public.review_items (user_id, lesson_id, ease_factor, interval_days, repetitions, due_at)
+  VALUES (
+    _user_id,
+    _lesson_id,
+    public.review_ease(2.5, public.review_quality(true, _attempts, _hints_used)),
+    1,
+    1,
+    now() + interval '1 day'
+  )
+  ON CONFLICT (user_id, lesson_id) DO NOTHING;
+
+  RETURN true;
+END;
+$$;
+
+-- Queue every lesson solved so far
+INSERT INTO public.review_items (user_id, lesson_id, ease_factor, interval_days, repetitions, due_at)
+SELECT
+  user_id,
+  lesson_id,
+  public.review_ease(2.5, public.review_quality(true, COALESCE(attempts, 1), COALESCE(hints_used, 0))),
+  1,
+  1,
+  completed_at + interval '1 day'
+FROM public.user_progress
+ON CONFLICT (user_id, lesson_id) DO NOTHING;
@@ -0,0 +1,44 @@
+-- Tiered hints: each hint has a point cost and hints unlock in order. Targeted
+-- hints are free and appear when a failed check's output or the code matches a pattern.
+
+-- hint_costs[i] is what revealing hints[i] costs; grade-submission falls back to
+-- a share of the lesson's points for hints without a cost
+ALTER TABLE public.lessons
+  ADD COLUMN hint_costs INTEGER[] NOT NULL DEFAULT '{}' CHECK (0 <= ALL (hint_costs)),
+  ADD COLUMN targeted_hints JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(targeted_hints) = 'array');
+
+GRANT INSERT (hint_costs, targeted_hints), UPDATE (hint_costs, targeted_hints) ON public.lessons TO authenticated;
+
+-- Price existing hints at 10%, 15% and then 20% of the lesson's points each
+UPDATE public.lessons l
+SET hint_costs = ARRAY(
+  SELECT ROUND(COALESCE(l.points, 0) * (ARRAY[0.10, 0.15, 0.20])[LEAST(i, 3)])::INTEGER
+  FROM generate_subscripts(l.hints, 1) AS i
+  ORDER BY i
+)
+WHERE l.hints IS NOT NULL;
+
+-- Each entry is {"match": "output" | "code", "pattern": <regular expression>, "hint": <text>}
+UPDATE public.lessons l
+SET targeted_hints = s.targeted_hints::JSONB
+FROM (VALUES
+  ('python', 'off-by-one-error-in-loop',
+    '[{"match": "output", "pattern": "^6$", "hint": "Your loop still prints 6, one number too many. Where does range() stop?"}]'),
+  ('python', 'list-index-bug',
+    '[{"match": "output", "pattern": "IndexError", "hint": "The list has five items, so its last index is 4, not 5."}]'),
+  ('python', 'string-concatenation-issue',
+    '[{"match": "output", "pattern": "TypeError", "hint": "Python will not add a str and an int. One of them needs converting."}]'),
+  ('python', 'dictionary-keyerror',
+    '[{"match": "output", "pattern": "KeyError", "hint": "Square brackets fail when the key is missing. Is there a way to ask for a default instead?"}]'),
+  ('javascript', 'equality-vs-identity',
+    '[{"match": "output", "pattern": "not five", "hint": "=== also compares types, and the number 5 is not the string \"5\"."}]'),
+  ('javascript', 'callback-scope-issue',
+    '[{"match": "output", "pattern": "^3$", "hint": "Every callback printed 3: they all share the same var i, which has finished the loop by the time they run."}]'),
+  ('javascript', 'async-await-error',
+    '[{"match": "output", "pattern": "Promise", "hint": "That is the Promise itself, not the value it resolves to."}]'),
+  ('java', 'integer-division',
+    '[{"match": "output", "pattern": "^2$", "hint": "Dividing two ints throws away the remainder, so 5 / 2 is 2."}]'),
+  ('cpp', 'uninitialized-variable',
+    '[{"match": "code", "pattern": "int\\s+x\\s*;", "hint": "x is declared without a value, so it holds whatever was in memory."}]')
+) AS s(language, lesson_slug, targeted_hints)
+WHERE l.language = s.language::programming_language AND l.slug = s.lesson_slug;
@@ -0,0 +1,20 @@
+-- Solve time is measured by grade-submission from when the learner first opened
+-- the lesson, so refreshing the page doesn't restart the clock
+CREATE TABLE public.lesson_starts (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, lesson_id)
+);
+
+ALTER TABLE public.lesson_starts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own lesson starts" ON public.lesson_starts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own lesson starts" ON public.lesson_starts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Starts can't be moved: started_at always comes from the database clock
+REVOKE INSERT, UPDATE ON public.lesson_starts FROM anon, authenticated;
+GRANT INSERT (user_id, lesson_id) ON public.lesson_starts TO authenticated;
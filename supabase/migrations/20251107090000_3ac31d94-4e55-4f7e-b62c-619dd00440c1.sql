@@ -0,0 +1,63 @@
+-- Editing a published lesson moves it back to draft, so the edit has to pass
+-- publish-lesson's checks again before learners see it. Only changes those
+-- checks depend on count: the code, how output is compared, the reference
+-- solution and the test cases.
+
+CREATE OR REPLACE FUNCTION public.unpublish_edited_lesson()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- publish-lesson only ever changes the status, which leaves this alone
+  IF OLD.status = 'published' AND NEW.status = 'published' AND
+    (NEW.language, NEW.starter_code, NEW.comparator, NEW.comparator_options)
+      IS DISTINCT FROM (OLD.language, OLD.starter_code, OLD.comparator, OLD.comparator_options)
+  THEN
+    NEW.status := 'draft';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER unpublish_edited_lesson
+  BEFORE UPDATE ON public.lessons
+  FOR EACH ROW EXECUTE FUNCTION public.unpublish_edited_lesson();
+
+-- Instructors can't change the status themselves, hence SECURITY DEFINER
+CREATE OR REPLACE FUNCTION public.unpublish_lesson_of_edited_row()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.lessons
+  SET status = 'draft'
+  WHERE id IN (OLD.lesson_id, NEW.lesson_id) AND status = 'published';
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER unpublish_lesson_on_solution_change
+  AFTER INSERT OR DELETE ON public.lesson_solutions
+  FOR EACH ROW EXECUTE FUNCTION public.unpublish_lesson_of_edited_row();
+
+-- Saving the editor rewrites every row, so updates only count when they change something
+CREATE TRIGGER unpublish_lesson_on_solution_update
+  AFTER UPDATE ON public.lesson_solutions
+  FOR EACH ROW
+  WHEN ((OLD.lesson_id, OLD.code) IS DISTINCT FROM (NEW.lesson_id, NEW.code))
+  EXECUTE FUNCTION public.unpublish_lesson_of_edited_row();
+
+CREATE TRIGGER unpublish_lesson_on_test_case_change
+  AFTER INSERT OR DELETE ON public.lesson_test_cases
+  FOR EACH ROW EXECUTE FUNCTION public.unpublish_lesson_of_edited_row();
+
+CREATE TRIGGER unpublish_lesson_on_test_case_update
+  AFTER UPDATE ON public.lesson_test_cases
+  FOR EACH ROW
+  WHEN (
+    (OLD.lesson_id, OLD.stdin, OLD.expected_output, OLD.is_hidden, OLD.weight)
+      IS DISTINCT FROM (NEW.lesson_id, NEW.stdin, NEW.expected_output, NEW.is_hidden, NEW.weight)
+  )
+  EXECUTE FUNCTION public.unpublish_lesson_of_edited_row();
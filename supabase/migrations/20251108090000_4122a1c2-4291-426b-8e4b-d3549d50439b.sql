@@ -0,0 +1,144 @@
+-- Hints are handed out by the database one at a time, in order, and each reveal
+-- is recorded with its cost so grade-submission can charge for it. Learners can
+-- no longer read hint text, targeted hints included, straight from lessons.
+
+-- The editor and learners still need to know how many hints there are
+ALTER TABLE public.lessons
+  ADD COLUMN hint_count INTEGER NOT NULL GENERATED ALWAYS AS (COALESCE(array_length(hints, 1), 0)) STORED;
+
+REVOKE SELECT ON public.lessons FROM anon, authenticated;
+GRANT SELECT (
+  id, slug, title, language, difficulty, description, starter_code, expected_output, points, order_index,
+  created_at, comparator, comparator_options, status, search, hint_costs, hint_count
+) ON public.lessons TO anon, authenticated;
+
+CREATE TABLE public.hint_reveals (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  hint_index INTEGER NOT NULL CHECK (hint_index >= 0),
+  -- What the hint cost when it was revealed; nothing once the lesson is completed
+  cost INTEGER NOT NULL CHECK (cost >= 0),
+  revealed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, lesson_id, hint_index)
+);
+
+ALTER TABLE public.hint_reveals ENABLE ROW LEVEL SECURITY;
+
+-- Only reveal_hint writes reveals
+CREATE POLICY "Users can view their own hint reveals" ON public.hint_reveals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Instructors can view all hint reveals" ON public.hint_reveals
+  FOR SELECT USING (public.is_instructor());
+
+-- Reveals hint _hint_index of a published lesson to the caller and returns its
+-- text. Hints unlock in order, so the one before it must have been revealed
+-- already. Revealing a hint again is free and returns the same text.
+CREATE OR REPLACE FUNCTION public.reveal_hint(_lesson_id UUID, _hint_index INTEGER)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _lesson public.lessons;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to reveal hints';
+  END IF;
+
+  SELECT * INTO _lesson FROM public.lessons WHERE id = _lesson_id AND status = 'published';
+  IF NOT FOUND OR _hint_index < 0 OR _hint_index >= _lesson.hint_count THEN
+    RAISE EXCEPTION 'Hint % of lesson % does not exist', _hint_index, _lesson_id;
+  END IF;
+
+  IF _hint_index > 0 AND NOT EXISTS (
+    SELECT 1 FROM public.hint_reveals
+    WHERE user_id = _user_id AND lesson_id = _lesson_id AND hint_index = _hint_index - 1
+  ) THEN
+    RAISE EXCEPTION 'Hint % has to be revealed first', _hint_index;
+  END IF;
+
+  -- Default costs match src/lib/hints.ts
+  INSERT INTO public.hint_reveals (user_id, lesson_id, hint_index, cost)
+  VALUES (
+    _user_id,
+    _lesson_id,
+    _hint_index,
+    CASE
+      WHEN EXISTS (SELECT 1 FROM public.user_progress WHERE user_id = _user_id AND lesson_id = _lesson_id) THEN 0
+      ELSE COALESCE(
+        _lesson.hint_costs[_hint_index + 1],
+        ROUND(COALESCE(_lesson.points, 0) * (ARRAY[0.10, 0.15, 0.20])[LEAST(_hint_index + 1, 3)])::INTEGER
+      )
+    END
+  )
+  ON CONFLICT (user_id, lesson_id, hint_index) DO NOTHING;
+
+  RETURN _lesson.hints[_hint_index + 1];
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reveal_hint(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reveal_hint(UUID, INTEGER) TO authenticated;
+
+-- The hints the caller has revealed for a lesson, in order, e.g. after a page refresh
+CREATE OR REPLACE FUNCTION public.revealed_hints(_lesson_id UUID)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(l.hints[r.hint_index + 1] ORDER BY r.hint_index), '{}')
+  FROM public.hint_reveals r
+  JOIN public.lessons l ON l.id = r.lesson_id AND l.status = 'published'
+  WHERE r.user_id = auth.uid() AND r.lesson_id = _lesson_id AND r.hint_index < l.hint_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revealed_hints(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revealed_hints(UUID) TO authenticated;
+
+-- The targeted hints of a published lesson that match the learner's code or
+-- any of the outputs of their last check. Patterns are matched line by line,
+-- like JavaScript's multiline flag; one Postgres can't compile never matches.
+CREATE OR REPLACE FUNCTION public.match_targeted_hints(_lesson_id UUID, _code TEXT, _outputs TEXT[])
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _targeted_hint JSONB;
+  _pattern TEXT;
+BEGIN
+  FOR _targeted_hint IN
+    SELECT value
+    FROM public.lessons, jsonb_array_elements(targeted_hints)
+    WHERE id = _lesson_id AND status = 'published'
+  LOOP
+    _pattern := '(?n)' || (_targeted_hint ->> 'pattern');
+    BEGIN
+      IF CASE _targeted_hint ->> 'match'
+        WHEN 'code' THEN _code ~ _pattern
+        ELSE EXISTS (SELECT 1 FROM unnest(_outputs) AS output WHERE output ~ _pattern)
+      END THEN
+        RETURN NEXT _targeted_hint ->> 'hint';
+      END IF;
+    EXCEPTION WHEN invalid_regular_expression THEN
+      NULL;
+    END;
+  END LOOP;
+END;
+$$;
+
+-- Instructors edit hints, so they read them through here
+CREATE OR REPLACE FUNCTION public.lesson_hints(_lesson_id UUID)
+RETURNS TABLE (hints TEXT[], targeted_hints JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(l.hints, '{}'), l.targeted_hints
+  FROM public.lessons l
+  WHERE l.id = _lesson_id AND public.is_instructor();
+$$;
@@ -0,0 +1,106 @@
+-- submit-review measures reviews itself instead of trusting the client. A
+-- review begins when its lesson falls due: checks and hint reveals from then on
+-- count towards it, and its clock starts when the learner opens it.
+
+-- Checks made while reviewing are recorded apart from challenge checks
+ALTER TABLE public.submissions DROP CONSTRAINT submissions_kind_check;
+ALTER TABLE public.submissions ADD CONSTRAINT submissions_kind_check CHECK (kind IN ('run', 'check', 'review'));
+
+ALTER TABLE public.review_items ADD COLUMN started_at TIMESTAMP WITH TIME ZONE;
+
+-- Hints revealed during a review, which are free but lower its quality. due_at
+-- is the due date of the review they were revealed in.
+CREATE TABLE public.review_hint_reveals (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  hint_index INTEGER NOT NULL CHECK (hint_index >= 0),
+  revealed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, lesson_id, due_at, hint_index)
+);
+
+ALTER TABLE public.review_hint_reveals ENABLE ROW LEVEL SECURITY;
+
+-- Only reveal_review_hint writes reveals
+CREATE POLICY "Users can view their own review hint reveals" ON public.review_hint_reveals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Instructors can view all review hint reveals" ON public.review_hint_reveals
+  FOR SELECT USING (public.is_instructor());
+
+-- Starts the clock on the caller's review of a lesson, unless it is already
+-- running. Does nothing before the lesson is due.
+CREATE OR REPLACE FUNCTION public.start_review(_lesson_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.review_items
+  SET started_at = now()
+  WHERE user_id = auth.uid()
+    AND lesson_id = _lesson_id
+    AND due_at <= now()
+    AND (started_at IS NULL OR started_at < due_at);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_review(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_review(UUID) TO authenticated;
+
+-- Like reveal_hint, but for the caller's current review of the lesson, so hints
+-- unlock in order again each time the lesson comes back
+CREATE OR REPLACE FUNCTION public.reveal_review_hint(_lesson_id UUID, _hint_index INTEGER)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _due_at TIMESTAMP WITH TIME ZONE;
+  _lesson public.lessons;
+BEGIN
+  SELECT due_at INTO _due_at FROM public.review_items
+  WHERE user_id = _user_id AND lesson_id = _lesson_id AND due_at <= now();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % is not due for review', _lesson_id;
+  END IF;
+
+  SELECT * INTO _lesson FROM public.lessons WHERE id = _lesson_id AND status = 'published';
+  IF NOT FOUND OR _hint_index < 0 OR _hint_index >= _lesson.hint_count THEN
+    RAISE EXCEPTION 'Hint % of lesson % does not exist', _hint_index, _lesson_id;
+  END IF;
+
+  IF _hint_index > 0 AND NOT EXISTS (
+    SELECT 1 FROM public.review_hint_reveals
+    WHERE user_id = _user_id AND lesson_id = _lesson_id AND due_at = _due_at AND hint_index = _hint_index - 1
+  ) THEN
+    RAISE EXCEPTION 'Hint % has to be revealed first', _hint_index;
+  END IF;
+
+  INSERT INTO public.review_hint_reveals (user_id, lesson_id, due_at, hint_index)
+  VALUES (_user_id, _lesson_id, _due_at, _hint_index)
+  ON CONFLICT (user_id, lesson_id, due_at, hint_index) DO NOTHING;
+
+  RETURN _lesson.hints[_hint_index + 1];
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reveal_review_hint(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reveal_review_hint(UUID, INTEGER) TO authenticated;
+
+-- The hints the caller has revealed in their current review of a lesson, in order
+CREATE OR REPLACE FUNCTION public.revealed_review_hints(_lesson_id UUID)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(l.hints[r.hint_index + 1] ORDER BY r.hint_index), '{}')
+  FROM public.review_items i
+  JOIN public.review_hint_reveals r
+    ON r.user_id = i.user_id AND r.lesson_id = i.lesson_id AND r.due_at = i.due_at
+  JOIN public.lessons l ON l.id = r.lesson_id AND l.status = 'published'
+  WHERE i.user_id = auth.uid() AND i.lesson_id = _lesson_id AND r.hint_index < l.hint_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revealed_review_hints(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revealed_review_hints(UUID) TO authenticated;
@@ -0,0 +1,27 @@
+-- Solve time only counts while the learner is working on the lesson. The
+-- Challenge page sends a heartbeat every few seconds while its tab is visible
+-- and the learner is active, and the database adds up the time between them.
+ALTER TABLE public.lesson_starts
+  ADD COLUMN active_seconds INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_active_at TIMESTAMP WITH TIME ZONE;
+
+-- Adds the time since the caller's last heartbeat on a lesson to its active
+-- time. A longer gap than a missed heartbeat or two means the learner was away,
+-- and counts for nothing. grade-submission credits the final gap the same way.
+CREATE OR REPLACE FUNCTION public.record_lesson_activity(_lesson_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.lesson_starts
+  SET active_seconds = active_seconds + CASE
+        WHEN now() - last_active_at <= interval '30 seconds'
+          THEN ROUND(EXTRACT(EPOCH FROM now() - last_active_at))::INTEGER
+        ELSE 0
+      END,
+      last_active_at = now()
+  WHERE user_id = auth.uid() AND lesson_id = _lesson_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_lesson_activity(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_lesson_activity(UUID) TO authenticated;